@@ -0,0 +1,8 @@
+import { readServerConfig } from "@/lib/config"
+import { proxyToBackend } from "@/lib/proxy"
+import { simulateUpload } from "@/lib/simulation"
+
+export async function POST(req: Request) {
+    if (readServerConfig().backend === "simulation") return simulateUpload(req)
+    return proxyToBackend(req, "/dataset/upload")
+}
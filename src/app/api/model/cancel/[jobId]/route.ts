@@ -0,0 +1,11 @@
+import { readServerConfig } from "@/lib/config"
+import { proxyToBackend } from "@/lib/proxy"
+import { simulateCancel } from "@/lib/simulation"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(req: Request, { params }: { params: Promise<{ jobId: string }> }) {
+    const { jobId } = await params
+    if (readServerConfig().backend === "simulation") return simulateCancel(jobId)
+    return proxyToBackend(req, `/model/cancel/${encodeURIComponent(jobId)}`)
+}
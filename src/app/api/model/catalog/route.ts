@@ -0,0 +1,10 @@
+import { readServerConfig } from "@/lib/config"
+import { proxyToBackend } from "@/lib/proxy"
+import { simulateCatalog } from "@/lib/simulation"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(req: Request) {
+    if (readServerConfig().backend === "simulation") return simulateCatalog()
+    return proxyToBackend(req, "/model/catalog")
+}
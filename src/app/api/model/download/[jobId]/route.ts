@@ -0,0 +1,12 @@
+import { readServerConfig } from "@/lib/config"
+import { proxyToBackend } from "@/lib/proxy"
+import { simulateDownload } from "@/lib/simulation"
+
+export const dynamic = "force-dynamic"
+
+// A finished job's generated rows as a file (?format=csv|json|ndjson|sql|xlsx|parquet), streamed through without buffering
+export async function GET(req: Request, { params }: { params: Promise<{ jobId: string }> }) {
+    const { jobId } = await params
+    if (readServerConfig().backend === "simulation") return simulateDownload(req, jobId)
+    return proxyToBackend(req, `/model/download/${encodeURIComponent(jobId)}`)
+}
@@ -0,0 +1,12 @@
+import { readServerConfig } from "@/lib/config"
+import { proxyToBackend } from "@/lib/proxy"
+import { simulateEvents } from "@/lib/simulation"
+
+export const dynamic = "force-dynamic"
+
+// Server-Sent Events stream of job progress; the proxy streams the upstream body through unbuffered
+export async function GET(req: Request, { params }: { params: Promise<{ jobId: string }> }) {
+    const { jobId } = await params
+    if (readServerConfig().backend === "simulation") return simulateEvents(req, jobId)
+    return proxyToBackend(req, `/model/events/${encodeURIComponent(jobId)}`)
+}
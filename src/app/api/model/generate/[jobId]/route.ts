@@ -0,0 +1,11 @@
+import { readServerConfig } from "@/lib/config"
+import { proxyToBackend } from "@/lib/proxy"
+import { simulateGenerate } from "@/lib/simulation"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(req: Request, { params }: { params: Promise<{ jobId: string }> }) {
+    const { jobId } = await params
+    if (readServerConfig().backend === "simulation") return simulateGenerate(req, jobId)
+    return proxyToBackend(req, `/model/generate/${encodeURIComponent(jobId)}`)
+}
@@ -0,0 +1,12 @@
+import { readServerConfig } from "@/lib/config"
+import { proxyToBackend } from "@/lib/proxy"
+import { simulateResults } from "@/lib/simulation"
+
+export const dynamic = "force-dynamic"
+
+// One page of a finished job's generated rows (?offset=&limit=)
+export async function GET(req: Request, { params }: { params: Promise<{ jobId: string }> }) {
+    const { jobId } = await params
+    if (readServerConfig().backend === "simulation") return simulateResults(req, jobId)
+    return proxyToBackend(req, `/model/results/${encodeURIComponent(jobId)}`)
+}
@@ -0,0 +1,11 @@
+import { readServerConfig } from "@/lib/config"
+import { proxyToBackend } from "@/lib/proxy"
+import { simulateStatus } from "@/lib/simulation"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(req: Request, { params }: { params: Promise<{ jobId: string }> }) {
+    const { jobId } = await params
+    if (readServerConfig().backend === "simulation") return simulateStatus(jobId)
+    return proxyToBackend(req, `/model/status/${encodeURIComponent(jobId)}`)
+}
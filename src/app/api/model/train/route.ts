@@ -0,0 +1,8 @@
+import { readServerConfig } from "@/lib/config"
+import { proxyToBackend } from "@/lib/proxy"
+import { simulateTrain } from "@/lib/simulation"
+
+export async function POST(req: Request) {
+    if (readServerConfig().backend === "simulation") return simulateTrain(req)
+    return proxyToBackend(req, "/model/train")
+}
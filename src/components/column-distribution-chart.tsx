@@ -0,0 +1,153 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { buildCategoryFrequencies, buildHistogram } from "@/lib/distributions"
+import type { ColumnSimilarity } from "@/lib/quality-metrics"
+import type { Row } from "@/lib/tabular"
+
+interface ColumnDistributionChartProps {
+    source: Row[]
+    synthetic: Row[]
+    columns: ColumnSimilarity[]
+}
+
+function formatNumber(value: number) {
+    const abs = Math.abs(value)
+    if (abs >= 1000) return value.toLocaleString("en-US", { maximumFractionDigits: 0 })
+    if (abs >= 10) return value.toFixed(1)
+    return value.toFixed(2)
+}
+
+const formatShare = (value: number) => `${(value * 100).toFixed(1)}%`
+
+function Legend() {
+    return (
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+            <div className="flex items-center gap-1">
+                <div className="w-3 h-3 rounded-sm bg-primary/50" />
+                Original
+            </div>
+            <div className="flex items-center gap-1">
+                <div className="w-3 h-3 rounded-sm bg-secondary/70" />
+                Synthetic
+            </div>
+        </div>
+    )
+}
+
+function NumericHistogram({ source, synthetic, column }: { source: Row[]; synthetic: Row[]; column: string }) {
+    const bins = useMemo(() => buildHistogram(source, synthetic, column), [source, synthetic, column])
+    const peak = Math.max(0.0001, ...bins.map((b) => Math.max(b.source, b.synthetic)))
+
+    if (!bins.length) {
+        return <div className="text-sm text-muted-foreground">No numeric values to plot.</div>
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-end gap-0.5 h-48 border-b border-l border-border px-1">
+                {bins.map((bin, i) => (
+                    <div
+                        key={i}
+                        className="relative flex-1 h-full"
+                        title={`${formatNumber(bin.start)} – ${formatNumber(bin.end)}\nOriginal: ${formatShare(bin.source)}\nSynthetic: ${formatShare(bin.synthetic)}`}
+                    >
+                        <div
+                            className="absolute bottom-0 inset-x-0 bg-primary/50 rounded-t-sm"
+                            style={{ height: `${(bin.source / peak) * 100}%` }}
+                        />
+                        <div
+                            className="absolute bottom-0 inset-x-1 bg-secondary/70 rounded-t-sm"
+                            style={{ height: `${(bin.synthetic / peak) * 100}%` }}
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{formatNumber(bins[0].start)}</span>
+                <span>{formatNumber(bins[bins.length - 1].end)}</span>
+            </div>
+        </div>
+    )
+}
+
+function CategoryBars({ source, synthetic, column }: { source: Row[]; synthetic: Row[]; column: string }) {
+    const frequencies = useMemo(() => buildCategoryFrequencies(source, synthetic, column), [source, synthetic, column])
+    const peak = Math.max(0.0001, ...frequencies.map((f) => Math.max(f.source, f.synthetic)))
+
+    if (!frequencies.length) {
+        return <div className="text-sm text-muted-foreground">No values to plot.</div>
+    }
+
+    return (
+        <div className="space-y-3">
+            {frequencies.map((f) => (
+                <div key={f.category} className="grid grid-cols-[10rem_1fr] items-center gap-3 text-xs">
+                    <span className="truncate" title={f.category}>{f.category}</span>
+                    <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                            <div className="flex-1 bg-muted rounded-full h-2">
+                                <div className="bg-primary/50 h-2 rounded-full" style={{ width: `${(f.source / peak) * 100}%` }} />
+                            </div>
+                            <span className="w-12 text-right text-muted-foreground">{formatShare(f.source)}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <div className="flex-1 bg-muted rounded-full h-2">
+                                <div className="bg-secondary/70 h-2 rounded-full" style={{ width: `${(f.synthetic / peak) * 100}%` }} />
+                            </div>
+                            <span className="w-12 text-right text-muted-foreground">{formatShare(f.synthetic)}</span>
+                        </div>
+                    </div>
+                </div>
+            ))}
+        </div>
+    )
+}
+
+export function ColumnDistributionChart({ source, synthetic, columns }: ColumnDistributionChartProps) {
+    const [selected, setSelected] = useState<string | null>(columns[0]?.column ?? null)
+    const active = columns.find((c) => c.column === selected) ?? columns[0]
+
+    if (!active) {
+        return <div className="text-sm text-muted-foreground">No shared columns to compare.</div>
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+                {columns.map((c) => (
+                    <Button
+                        key={c.column}
+                        size="sm"
+                        variant={c.column === active.column ? "default" : "outline"}
+                        onClick={() => setSelected(c.column)}
+                        className="h-7 text-xs"
+                    >
+                        {c.column}
+                    </Button>
+                ))}
+            </div>
+
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{active.column}</span>
+                    <Badge variant="outline" className="text-xs">
+                        {active.kind}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                        {active.test === "ks" ? "KS" : "TVD"} {active.statistic.toFixed(3)} • {Math.round(active.similarity)}% similar
+                    </span>
+                </div>
+                <Legend />
+            </div>
+
+            {active.kind === "numeric" ? (
+                <NumericHistogram source={source} synthetic={synthetic} column={active.column} />
+            ) : (
+                <CategoryBars source={source} synthetic={synthetic} column={active.column} />
+            )}
+        </div>
+    )
+}
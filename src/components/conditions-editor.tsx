@@ -0,0 +1,209 @@
+"use client"
+
+import { useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Filter, Plus, X } from "lucide-react"
+import { parseTable } from "@/lib/tabular"
+import type { ColumnSchema } from "@/lib/schema"
+import { type GenerationCondition, conditionableColumns, isFixedCondition } from "@/lib/conditions"
+import type { UploadedFile } from "./synthetic-data-platform"
+
+interface ConditionsEditorProps {
+    file: UploadedFile | null
+    schema: ColumnSchema[] | null
+    conditions: GenerationCondition[]
+    onChange: (conditions: GenerationCondition[]) => void
+    errors: Record<number, string>
+}
+
+const selectClass = "h-8 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-zinc-900 px-2 text-xs"
+
+export function ConditionsEditor({ file, schema, conditions, onChange, errors }: ConditionsEditorProps) {
+    const columns = useMemo(
+        () => (file ? conditionableColumns(parseTable(file.content, file.name), schema) : []),
+        [file, schema],
+    )
+    const valuesFor = (column: string) => columns.find((c) => c.column === column)?.values ?? []
+
+    const replace = (index: number, condition: GenerationCondition) => {
+        onChange(conditions.map((c, i) => (i === index ? condition : c)))
+    }
+
+    const addCondition = () => {
+        const free = columns.find((c) => !conditions.some((existing) => existing.column === c.column))
+        if (!free) return
+        onChange([...conditions, { column: free.column, targets: [{ value: free.values[0], share: 1 }] }])
+    }
+
+    const setColumn = (index: number, column: string) => {
+        replace(index, { column, targets: [{ value: valuesFor(column)[0] ?? "", share: 1 }] })
+    }
+
+    // A mix starts from the two most common values, split evenly
+    const setMode = (index: number, mode: "fixed" | "mix") => {
+        const condition = conditions[index]
+        const values = valuesFor(condition.column)
+        const targets =
+            mode === "fixed"
+                ? [{ value: condition.targets[0]?.value ?? values[0], share: 1 }]
+                : values.slice(0, 2).map((value) => ({ value, share: 0.5 }))
+        replace(index, { ...condition, targets })
+    }
+
+    const setTarget = (index: number, targetIndex: number, patch: Partial<GenerationCondition["targets"][number]>) => {
+        const condition = conditions[index]
+        replace(index, { ...condition, targets: condition.targets.map((t, i) => (i === targetIndex ? { ...t, ...patch } : t)) })
+    }
+
+    const addTarget = (index: number) => {
+        const condition = conditions[index]
+        const unused = valuesFor(condition.column).find((v) => !condition.targets.some((t) => t.value === v))
+        if (unused) replace(index, { ...condition, targets: [...condition.targets, { value: unused, share: 0 }] })
+    }
+
+    const removeTarget = (index: number, targetIndex: number) => {
+        const condition = conditions[index]
+        replace(index, { ...condition, targets: condition.targets.filter((_, i) => i !== targetIndex) })
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                    <Filter className="w-4 h-4" />
+                    Conditions
+                </CardTitle>
+                <CardDescription>
+                    Optional. Fix a column to one value, or set the share of each value in the output. Leave empty to
+                    follow the source distribution.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {conditions.map((condition, index) => {
+                    const fixed = isFixedCondition(condition)
+                    const values = valuesFor(condition.column)
+                    const total = condition.targets.reduce((s, t) => s + t.share, 0)
+                    return (
+                        <div key={index} className="rounded-md border p-3 space-y-3">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <select
+                                    value={condition.column}
+                                    onChange={(e) => setColumn(index, e.target.value)}
+                                    className={selectClass}
+                                    aria-label="Column"
+                                >
+                                    {columns.map((c) => (
+                                        <option key={c.column} value={c.column}>
+                                            {c.column}
+                                        </option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={fixed ? "fixed" : "mix"}
+                                    onChange={(e) => setMode(index, e.target.value as "fixed" | "mix")}
+                                    className={selectClass}
+                                    aria-label="Condition type"
+                                >
+                                    <option value="fixed">is exactly</option>
+                                    <option value="mix">has the mix</option>
+                                </select>
+                                {fixed && (
+                                    <select
+                                        value={condition.targets[0].value}
+                                        onChange={(e) => setTarget(index, 0, { value: e.target.value })}
+                                        className={selectClass}
+                                        aria-label="Value"
+                                    >
+                                        {values.map((v) => (
+                                            <option key={v} value={v}>
+                                                {v}
+                                            </option>
+                                        ))}
+                                    </select>
+                                )}
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="ml-auto h-8 px-2"
+                                    onClick={() => onChange(conditions.filter((_, i) => i !== index))}
+                                    aria-label="Remove condition"
+                                >
+                                    <X className="w-4 h-4" />
+                                </Button>
+                            </div>
+
+                            {!fixed && (
+                                <div className="space-y-2">
+                                    {condition.targets.map((target, targetIndex) => (
+                                        <div key={targetIndex} className="flex items-center gap-2">
+                                            <select
+                                                value={target.value}
+                                                onChange={(e) => setTarget(index, targetIndex, { value: e.target.value })}
+                                                className={`${selectClass} flex-1`}
+                                                aria-label="Value"
+                                            >
+                                                {values.map((v) => (
+                                                    <option key={v} value={v}>
+                                                        {v}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                max={100}
+                                                step={1}
+                                                value={Math.round(target.share * 1000) / 10}
+                                                onChange={(e) => setTarget(index, targetIndex, { share: Number(e.target.value) / 100 })}
+                                                className="h-8 w-20 text-sm"
+                                                aria-label="Share (%)"
+                                            />
+                                            <span className="text-xs text-muted-foreground">%</span>
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="h-8 px-2"
+                                                disabled={condition.targets.length <= 1}
+                                                onClick={() => removeTarget(index, targetIndex)}
+                                                aria-label="Remove value"
+                                            >
+                                                <X className="w-4 h-4" />
+                                            </Button>
+                                        </div>
+                                    ))}
+                                    <div className="flex items-center justify-between">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => addTarget(index)}
+                                            disabled={condition.targets.length >= values.length}
+                                        >
+                                            <Plus className="w-4 h-4 mr-1" />
+                                            Add value
+                                        </Button>
+                                        <span className="text-xs text-muted-foreground tabular-nums">
+                                            Total {Math.round(total * 1000) / 10}%
+                                        </span>
+                                    </div>
+                                </div>
+                            )}
+
+                            {errors[index] && <p className="text-xs text-destructive">{errors[index]}</p>}
+                        </div>
+                    )
+                })}
+
+                {columns.length ? (
+                    <Button variant="outline" size="sm" onClick={addCondition} disabled={conditions.length >= columns.length}>
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add condition
+                    </Button>
+                ) : (
+                    <p className="text-xs text-muted-foreground">No categorical columns to condition on.</p>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
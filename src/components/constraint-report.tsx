@@ -0,0 +1,66 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { type ConstraintCheck, constraintColumns, describeConstraint } from "@/lib/constraints"
+import { isMissing, toKey } from "@/lib/tabular"
+
+interface ConstraintReportProps {
+    checks: ConstraintCheck[]
+    rowCount: number
+}
+
+// Violations per rule, with a few offending rows showing the columns the rule reads
+export function ConstraintReport({ checks, rowCount }: ConstraintReportProps) {
+    return (
+        <div className="space-y-4">
+            {checks.map((check, index) => {
+                const columns = constraintColumns(check.constraint)
+                const share = rowCount ? (check.violations / rowCount) * 100 : 0
+                return (
+                    <div key={index} className="rounded-md border p-3 space-y-3">
+                        <div className="flex items-center justify-between gap-4">
+                            <span className="text-sm font-medium">{describeConstraint(check.constraint)}</span>
+                            <div className="flex items-center gap-2 shrink-0">
+                                {check.violations > 0 && (
+                                    <span className="text-xs text-muted-foreground tabular-nums">{share.toFixed(1)}% of rows</span>
+                                )}
+                                <Badge variant={check.violations ? "destructive" : "default"}>
+                                    {check.violations
+                                        ? `${check.violations.toLocaleString()} violation${check.violations === 1 ? "" : "s"}`
+                                        : "Holds"}
+                                </Badge>
+                            </div>
+                        </div>
+
+                        {check.examples.length > 0 && (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-xs">
+                                    <thead>
+                                        <tr className="border-b text-muted-foreground">
+                                            {columns.map((c) => (
+                                                <th key={c} className="text-left py-1 pr-4 font-medium">
+                                                    {c}
+                                                </th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {check.examples.map((row, i) => (
+                                            <tr key={i} className="border-b last:border-0">
+                                                {columns.map((c) => (
+                                                    <td key={c} className="py-1 pr-4 font-mono">
+                                                        {isMissing(row[c]) ? <span className="text-muted-foreground">empty</span> : toKey(row[c])}
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
@@ -0,0 +1,261 @@
+"use client"
+
+import { useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Plus, Scale, X } from "lucide-react"
+import { isMissing, parseTable, toKey } from "@/lib/tabular"
+import { type ColumnSchema, type ColumnType, inferSchema } from "@/lib/schema"
+import { MAX_CONDITION_VALUES } from "@/lib/conditions"
+import {
+    COMPARE_OPERATORS,
+    CONSTRAINT_KINDS,
+    type CompareOperator,
+    type Constraint,
+    type ConstraintKind,
+} from "@/lib/constraints"
+import type { UploadedFile } from "./synthetic-data-platform"
+
+interface ConstraintsEditorProps {
+    file: UploadedFile | null
+    schema: ColumnSchema[] | null
+    constraints: Constraint[]
+    onChange: (constraints: Constraint[]) => void
+    errors: Record<number, string>
+}
+
+interface ColumnInfo {
+    name: string
+    type: ColumnType
+    // Distinct values by frequency; empty when there are too many to list
+    values: string[]
+}
+
+const selectClass = "h-8 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-zinc-900 px-2 text-xs"
+
+function columnValues(rows: Record<string, unknown>[], column: string): string[] {
+    const counts = new Map<string, number>()
+    for (const r of rows) {
+        if (!isMissing(r[column])) counts.set(toKey(r[column]), (counts.get(toKey(r[column])) ?? 0) + 1)
+    }
+    if (counts.size > MAX_CONDITION_VALUES) return []
+    return Array.from(counts).sort((a, b) => b[1] - a[1]).map(([value]) => value)
+}
+
+// A starting rule of `kind`, on `column` when it suits the kind
+function blankConstraint(kind: ConstraintKind, columns: ColumnInfo[], column?: string): Constraint {
+    const pick = (suits: (c: ColumnInfo) => boolean) =>
+        columns.find((c) => c.name === column && suits(c)) ?? columns.find(suits) ?? columns[0]
+    const first = pick(() => true)?.name ?? ""
+    const second = columns.find((c) => c.name !== first)?.name ?? ""
+    switch (kind) {
+        case "range":
+            return { kind, column: pick((c) => c.type === "numeric")?.name ?? "", min: 0, max: null }
+        case "compare":
+            return { kind, column: first, operator: "!=", other: second }
+        case "implies":
+            return { kind, column: first, when: null, target: second, state: "not_null" }
+        case "unique":
+            return { kind, column: first }
+        case "allowed": {
+            const chosen = pick((c) => c.values.length > 0)
+            return { kind, column: chosen?.name ?? "", values: chosen?.values ?? [] }
+        }
+    }
+}
+
+export function ConstraintsEditor({ file, schema, constraints, onChange, errors }: ConstraintsEditorProps) {
+    // Dropped columns aren't in the output, so there's nothing to constrain
+    const columns = useMemo<ColumnInfo[]>(() => {
+        if (!file) return []
+        const table = parseTable(file.content, file.name)
+        return (schema ?? inferSchema(table))
+            .filter((c) => c.policy !== "drop")
+            .map((c) => ({ name: c.name, type: c.type, values: columnValues(table.rows, c.name) }))
+    }, [file, schema])
+    const info = (name: string) => columns.find((c) => c.name === name)
+
+    const replace = (index: number, constraint: Constraint) => {
+        onChange(constraints.map((c, i) => (i === index ? constraint : c)))
+    }
+
+    const columnSelect = (value: string, onSelect: (name: string) => void, label: string, only?: (c: ColumnInfo) => boolean) => (
+        <select value={value} onChange={(e) => onSelect(e.target.value)} className={selectClass} aria-label={label}>
+            {columns.filter((c) => !only || only(c) || c.name === value).map((c) => (
+                <option key={c.name} value={c.name}>
+                    {c.name}
+                </option>
+            ))}
+        </select>
+    )
+
+    const boundInput = (value: number | null, onInput: (value: number | null) => void, label: string) => (
+        <Input
+            type="number"
+            value={value ?? ""}
+            placeholder="any"
+            onChange={(e) => onInput(e.target.value.trim() === "" ? null : Number(e.target.value))}
+            className="h-8 w-24 text-sm"
+            aria-label={label}
+        />
+    )
+
+    const renderFields = (c: Constraint, index: number) => {
+        switch (c.kind) {
+            case "range":
+                return (
+                    <>
+                        {columnSelect(c.column, (column) => replace(index, { ...c, column }), "Column", (col) => col.type === "numeric")}
+                        <span className="text-xs text-muted-foreground">from</span>
+                        {boundInput(c.min, (min) => replace(index, { ...c, min }), "Minimum")}
+                        <span className="text-xs text-muted-foreground">to</span>
+                        {boundInput(c.max, (max) => replace(index, { ...c, max }), "Maximum")}
+                    </>
+                )
+            case "compare":
+                return (
+                    <>
+                        {columnSelect(c.column, (column) => replace(index, { ...c, column }), "Column")}
+                        <select
+                            value={c.operator}
+                            onChange={(e) => replace(index, { ...c, operator: e.target.value as CompareOperator })}
+                            className={selectClass}
+                            aria-label="Operator"
+                        >
+                            {COMPARE_OPERATORS.map((op) => (
+                                <option key={op} value={op}>
+                                    {op}
+                                </option>
+                            ))}
+                        </select>
+                        {columnSelect(c.other, (other) => replace(index, { ...c, other }), "Other column")}
+                    </>
+                )
+            case "implies": {
+                const values = info(c.column)?.values ?? []
+                return (
+                    <>
+                        <span className="text-xs text-muted-foreground">If</span>
+                        {columnSelect(c.column, (column) => replace(index, { ...c, column, when: null }), "Column")}
+                        <select
+                            value={c.when ?? ""}
+                            onChange={(e) => replace(index, { ...c, when: e.target.value || null })}
+                            className={selectClass}
+                            aria-label="Value"
+                        >
+                            <option value="">has a value</option>
+                            {values.map((v) => (
+                                <option key={v} value={v}>
+                                    = {v}
+                                </option>
+                            ))}
+                        </select>
+                        <span className="text-xs text-muted-foreground">then</span>
+                        {columnSelect(c.target, (target) => replace(index, { ...c, target }), "Target column")}
+                        <select
+                            value={c.state}
+                            onChange={(e) => replace(index, { ...c, state: e.target.value as "null" | "not_null" })}
+                            className={selectClass}
+                            aria-label="Target state"
+                        >
+                            <option value="null">is empty</option>
+                            <option value="not_null">is not empty</option>
+                        </select>
+                    </>
+                )
+            }
+            case "unique":
+                return columnSelect(c.column, (column) => replace(index, { ...c, column }), "Column")
+            case "allowed":
+                return columnSelect(
+                    c.column,
+                    (column) => replace(index, { ...c, column, values: info(column)?.values ?? [] }),
+                    "Column",
+                    (col) => col.values.length > 0,
+                )
+        }
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                    <Scale className="w-4 h-4" />
+                    Constraints
+                </CardTitle>
+                <CardDescription>
+                    Optional. Rules every generated row must follow; rows that break them are redrawn, and the results
+                    list any that still do.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {constraints.map((constraint, index) => (
+                    <div key={index} className="rounded-md border p-3 space-y-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <select
+                                value={constraint.kind}
+                                onChange={(e) =>
+                                    replace(index, blankConstraint(e.target.value as ConstraintKind, columns, constraint.column))
+                                }
+                                className={selectClass}
+                                aria-label="Rule type"
+                            >
+                                {CONSTRAINT_KINDS.map((k) => (
+                                    <option key={k.value} value={k.value}>
+                                        {k.label}
+                                    </option>
+                                ))}
+                            </select>
+                            {renderFields(constraint, index)}
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="ml-auto h-8 px-2"
+                                onClick={() => onChange(constraints.filter((_, i) => i !== index))}
+                                aria-label="Remove constraint"
+                            >
+                                <X className="w-4 h-4" />
+                            </Button>
+                        </div>
+
+                        {constraint.kind === "allowed" && (
+                            <div className="flex flex-wrap gap-1">
+                                {(info(constraint.column)?.values ?? []).map((v) => {
+                                    const allowed = constraint.values.includes(v)
+                                    return (
+                                        <Button
+                                            key={v}
+                                            variant={allowed ? "secondary" : "outline"}
+                                            size="sm"
+                                            className={`h-7 px-2 text-xs ${allowed ? "" : "text-muted-foreground line-through"}`}
+                                            onClick={() =>
+                                                replace(index, {
+                                                    ...constraint,
+                                                    values: allowed ? constraint.values.filter((x) => x !== v) : [...constraint.values, v],
+                                                })
+                                            }
+                                        >
+                                            {v}
+                                        </Button>
+                                    )
+                                })}
+                            </div>
+                        )}
+
+                        {errors[index] && <p className="text-xs text-destructive">{errors[index]}</p>}
+                    </div>
+                ))}
+
+                {columns.length ? (
+                    <Button variant="outline" size="sm" onClick={() => onChange([...constraints, blankConstraint("range", columns)])}>
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add constraint
+                    </Button>
+                ) : (
+                    <p className="text-xs text-muted-foreground">No columns to constrain.</p>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
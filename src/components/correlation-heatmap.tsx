@@ -0,0 +1,101 @@
+"use client"
+
+import type { CorrelationComparison, CorrelationMatrix, CorrelationMethod } from "@/lib/correlations"
+
+interface CorrelationHeatmapProps {
+    comparison: CorrelationComparison
+}
+
+const METHOD_LABELS: Record<CorrelationMethod, string> = {
+    pearson: "Pearson",
+    "cramers-v": "Cramér's V",
+    "correlation-ratio": "Correlation ratio",
+}
+
+// Signed correlations: blue for positive, red for negative
+function correlationColor(value: number | null) {
+    if (value === null) return "transparent"
+    const alpha = Math.min(1, Math.abs(value))
+    return value >= 0 ? `rgba(59, 130, 246, ${alpha})` : `rgba(239, 68, 68, ${alpha})`
+}
+
+// Differences run 0 (identical) to 1+ (opposite); anything at or above 0.5 is fully saturated
+function differenceColor(value: number | null) {
+    if (value === null) return "transparent"
+    return `rgba(249, 115, 22, ${Math.min(1, value * 2)})`
+}
+
+function Heatmap({
+    title,
+    matrix,
+    methods,
+    color,
+}: {
+    title: string
+    matrix: CorrelationMatrix
+    methods: CorrelationMethod[][]
+    color: (value: number | null) => string
+}) {
+    const n = matrix.columns.length
+
+    return (
+        <div className="space-y-2">
+            <div className="text-sm font-medium">{title}</div>
+            <div
+                className="grid gap-px bg-border border border-border rounded-sm overflow-hidden"
+                style={{ gridTemplateColumns: `repeat(${n}, minmax(0, 1fr))` }}
+            >
+                {matrix.values.map((row, i) =>
+                    row.map((value, j) => (
+                        <div
+                            key={`${i}-${j}`}
+                            className="aspect-square bg-card"
+                            title={`${matrix.columns[i]} × ${matrix.columns[j]}\n${METHOD_LABELS[methods[i][j]]}: ${value === null ? "n/a" : value.toFixed(3)}`}
+                        >
+                            <div className="w-full h-full" style={{ backgroundColor: color(value) }} />
+                        </div>
+                    )),
+                )}
+            </div>
+        </div>
+    )
+}
+
+export function CorrelationHeatmap({ comparison }: CorrelationHeatmapProps) {
+    if (comparison.columns.length < 2) {
+        return <div className="text-sm text-muted-foreground">At least two comparable columns are needed for correlations.</div>
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Heatmap title="Original" matrix={comparison.source} methods={comparison.methods} color={correlationColor} />
+                <Heatmap title="Synthetic" matrix={comparison.synthetic} methods={comparison.methods} color={correlationColor} />
+                <Heatmap title="Absolute Difference" matrix={comparison.difference} methods={comparison.methods} color={differenceColor} />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: correlationColor(1) }} />
+                    Positive
+                </div>
+                <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: correlationColor(-1) }} />
+                    Negative
+                </div>
+                <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: differenceColor(1) }} />
+                    Difference
+                </div>
+                <span>Pearson for numeric pairs, Cramér&apos;s V for categorical pairs, correlation ratio for mixed pairs. Hover a cell for details.</span>
+            </div>
+
+            <div className="text-xs font-medium">Column order (top to bottom, left to right)</div>
+            <ol className="grid grid-cols-2 md:grid-cols-3 gap-x-4 gap-y-1 text-xs text-muted-foreground list-decimal list-inside">
+                {comparison.columns.map((c) => (
+                    <li key={c} className="truncate" title={c}>{c}</li>
+                ))}
+            </ol>
+        </div>
+    )
+}
@@ -5,9 +5,21 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
-import { Zap, Play, CheckCircle, AlertTriangle } from "lucide-react"
+import { Zap, Play, CheckCircle, AlertTriangle, Ban, Square } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import type { UploadedFile, ModelConfig, GenerationParameters } from "./synthetic-data-platform"
+import { type ColumnSchema, inferSchema, toSchemaPayload } from "@/lib/schema"
+import { toPolicyPayload, withoutTreatedColumns } from "@/lib/pii"
+import { describeCondition } from "@/lib/conditions"
+import { checkConstraints, dateColumns } from "@/lib/constraints"
+import { ApiError, type JobStatus, cancelJob, generateSamples, getJobStatus, getResultsPage, trainModel } from "@/lib/api-client"
+import { type EffectiveParameters, toSamplingHyperparameters, toTrainingHyperparameters } from "@/lib/hyperparameters"
+import { type JobProgressEvent, type ProgressChannel, delay, watchJob } from "@/lib/job-progress"
+import { parseTable } from "@/lib/tabular"
+import { computeQualityReportAsync } from "@/lib/quality-metrics"
+import { computePrivacyReportAsync, copyColumns, holdoutRows, trainedHoldout } from "@/lib/privacy-metrics"
+import { type PrivacyBudget, describeBudget, formatEpsilon } from "@/lib/privacy-budget"
+import { fetchSampleRows } from "@/lib/result-pages"
+import type { UploadedFile, ModelConfig, GenerationParameters, GeneratedData } from "./synthetic-data-platform"
 
 interface UploadedFileWithId extends UploadedFile {
     dataset_id?: string
@@ -15,19 +27,28 @@ interface UploadedFileWithId extends UploadedFile {
 
 interface DataGenerationProps {
     file: UploadedFileWithId | null
+    schema: ColumnSchema[] | null
     model: ModelConfig | null
     parameters: GenerationParameters
     onNext: () => void
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     setGeneratedData: (data: any) => void
+    // Job started before a page refresh; the run picks up from the phase the backend reports instead of starting over
+    resume?: { jobId: string; effectiveParameters: EffectiveParameters } | null
+    // Called with the job id once training starts, and with null once the job is finished or abandoned
+    onJobChange?: (jobId: string | null, effectiveParameters?: EffectiveParameters) => void
+    // Called when a started job ends without producing data
+    onJobEnd?: (jobId: string, status: "cancelled" | "failed") => void
 }
 
 interface GenerationStep {
     id: string
     name: string
     description: string
-    status: "pending" | "running" | "completed" | "error"
+    status: "pending" | "running" | "completed" | "error" | "cancelled"
     progress: number
+    // Live detail from the progress stream, e.g. epoch and loss
+    detail?: string
 }
 
 // ---------------- Debug Utilities -----------------
@@ -40,76 +61,14 @@ function safeLower(x: unknown) {
 }
 
 // ---- Helpers ---------------------------------------------------------------
-async function fetchStatus(jobId: string): Promise<{ status: string; percent?: number }> {
-    const res = await fetch(`http://localhost:8003/model/status/${jobId}`)
-    if (!res.ok) throw new Error("Status fetch failed")
-    return res.json()
-}
-
-async function pollUntilDone(opts: {
-    jobId: string
-    fetchStatus: (jobId: string) => Promise<{ status: string; percent?: number }>
-    onTick?: (percent: number, status: string, raw?: unknown) => void
-    requireRunning?: boolean // if true, don't accept completed before we've seen running
-    intervalMs?: number
-    maxConsecutiveErrors?: number
-    abortRef?: React.MutableRefObject<boolean>
-    debug?: (msg: string) => void
-}) {
-    const {
-        jobId,
-        fetchStatus,
-        onTick,
-        requireRunning = false,
-        intervalMs = 3000, // slightly longer to avoid racing with backend flips + Strict Mode
-        maxConsecutiveErrors = 5,
-        abortRef,
-        debug,
-    } = opts
-
-    let errors = 0
-    let seenRunning = !requireRunning
-    let tick = 0
-
-    while (true) {
-        if (abortRef?.current) {
-            debug?.("poll: aborted by caller")
-            // don't throw; let caller treat as a graceful stop
-            return "aborted" as const
-        }
-
-        try {
-            const raw = await fetchStatus(jobId)
-            const status = safeLower(raw.status)
-            const percent = Math.max(0, Math.min(100, Number(raw.percent ?? 0)))
-
-            onTick?.(percent, status, raw)
-            debug?.(`[poll ${++tick}] status=${status} percent=${percent} seenRunning=${seenRunning} @ ${nowISO()}`)
-
-            if (status === "failed" || status === "error") {
-                throw new Error("Job failed on server")
-            }
-            if (status === "running") {
-                seenRunning = true
-            }
-            if (status === "completed" && seenRunning) {
-                return "completed" as const // finished for real
-            }
-            errors = 0 // reset on success
-        } catch (e: unknown) {
-            errors++
-            debug?.(`[poll error ${errors}/${maxConsecutiveErrors}] ${e instanceof Error ? e.message : String(e)}`)
-            if (errors >= maxConsecutiveErrors) {
-                throw new Error("Too many polling errors")
-            }
-            // else fall through
-        }
+// Rows read back from a paged result for validation and the results charts
+const VALIDATION_SAMPLE_ROWS = 5000
 
-        await new Promise((r) => setTimeout(r, intervalMs))
-    }
+async function fetchStatus(jobId: string, signal?: AbortSignal): Promise<JobStatus> {
+    return getJobStatus(jobId, { signal })
 }
 
-export function DataGeneration({ file, model, parameters, onNext, setGeneratedData }: DataGenerationProps) {
+export function DataGeneration({ file, schema, model, parameters, onNext, setGeneratedData, resume, onJobChange, onJobEnd }: DataGenerationProps) {
     const [steps, setSteps] = useState<GenerationStep[]>([
         { id: "preprocessing", name: "Data Preprocessing", description: "Analyzing and preparing your data for training", status: "pending", progress: 0 },
         { id: "training", name: "Model Training", description: "Training the AI model on your data patterns", status: "pending", progress: 0 },
@@ -118,14 +77,14 @@ export function DataGeneration({ file, model, parameters, onNext, setGeneratedDa
     ])
 
     const [overallProgress, setOverallProgress] = useState(0)
-    const [isGenerating, setIsGenerating] = useState(false)
+    const [isGenerating, setIsGenerating] = useState(Boolean(resume))
+    const [resumeError, setResumeError] = useState<string | null>(null)
 
     // Debug panel state
     const [debugLog, setDebugLog] = useState<string[]>([])
     const [lastTrainingStatus, setLastTrainingStatus] = useState<string>("-")
     const [lastGenerationStatus, setLastGenerationStatus] = useState<string>("-")
-    const [seenRunningTraining, setSeenRunningTraining] = useState(false)
-    const [seenRunningGeneration, setSeenRunningGeneration] = useState(false)
+    const [channel, setChannel] = useState<ProgressChannel | "-">("-")
 
     const pushLog = (line: string) => {
         setDebugLog((prev) => [
@@ -139,21 +98,33 @@ export function DataGeneration({ file, model, parameters, onNext, setGeneratedDa
     const jobIdRef = useRef<string | null>(null)
     const abortRef = useRef<boolean>(false)
     const runIdRef = useRef<number>(0)
+    // Aborts the current run's in-flight requests and waits
+    const controllerRef = useRef<AbortController | null>(null)
+
+    // Leaving the step stops polling; the backend job is left alone so it can be resumed
+    useEffect(() => () => controllerRef.current?.abort(), [])
 
     // Weighted progress so the bar moves smoothly by phase
     const weights = { preprocessing: 25, training: 35, generation: 30, validation: 10 } as const // total 100
 
-    // Strong gate: ensure we only start generation after a final confirmed training-completed status
-    async function assertCompleted(jobId: string) {
-        const s = await fetchStatus(jobId)
-        return safeLower(s.status) === "completed"
+    const describeProgress = (event: JobProgressEvent) => {
+        const parts: string[] = []
+        if (event.epoch !== undefined && event.epochs) parts.push(`Epoch ${event.epoch}/${event.epochs}`)
+        if (event.loss !== undefined) parts.push(`loss ${event.loss.toFixed(4)}`)
+        if (event.rows !== undefined && event.total) parts.push(`${event.rows.toLocaleString()} / ${event.total.toLocaleString()} rows`)
+        return parts.length ? parts.join(" · ") : undefined
     }
 
-    // Pipeline runner function
-    const runGenerationPipeline = async () => {
+    // Pipeline runner function; `resumeFrom` skips the train request and follows a job that's already running
+    const runGenerationPipeline = async (resumeFrom?: { jobId: string; effectiveParameters: EffectiveParameters }) => {
         abortRef.current = false
         runIdRef.current += 1
         const myRun = runIdRef.current
+        controllerRef.current?.abort()
+        const controller = new AbortController()
+        controllerRef.current = controller
+        const { signal } = controller
+        const isCancelled = () => abortRef.current || signal.aborted || runIdRef.current !== myRun
 
         setSteps([
             { id: "preprocessing", name: "Data Preprocessing", description: "Analyzing and preparing your data for training", status: "pending", progress: 0 },
@@ -165,199 +136,374 @@ export function DataGeneration({ file, model, parameters, onNext, setGeneratedDa
         setDebugLog([])
         setLastTrainingStatus("-")
         setLastGenerationStatus("-")
-        setSeenRunningTraining(false)
-        setSeenRunningGeneration(false)
+        setChannel("-")
+        setResumeError(null)
         jobIdRef.current = null
 
         // Snapshot inputs at start of run
         const datasetId = file?.dataset_id ?? ""
-        const modelName = "adsgan"
+        const modelName = model?.modelName ?? ""
         const sampleCount = parameters.samples
+        const training = model ? toTrainingHyperparameters(model, parameters) : undefined
+        const sampling = model ? toSamplingHyperparameters(model, parameters) : undefined
+        let effective: EffectiveParameters = resumeFrom?.effectiveParameters ?? {}
+        // Rows kept out of training so the privacy evaluation has real records the model never saw
+        const holdout =
+            model?.type === "tabular" && parameters.holdout !== false && file?.content
+                ? holdoutRows(parseTable(file.content, file.name).rows.length, file.content)
+                : []
 
-        pushLog(`[run ${myRun}] started; samples=${sampleCount} model=${modelName}`)
+        pushLog(`[run ${myRun}] started; samples=${sampleCount} model=${modelName} hyperparameters=${JSON.stringify({ ...training, ...sampling })}`)
 
-        // ---- Step 1: Preprocessing (simulate) ----
-        // Step 1: Preprocessing
-        setSteps((prev) => prev.map((s, i) => ({ ...s, status: i === 0 ? "running" : "pending", progress: i === 0 ? 0 : s.progress })))
-        for (let p = 0; p <= 100; p += 20) {
-            if (abortRef.current || runIdRef.current !== myRun) return
-            await new Promise((r) => setTimeout(r, 100))
-            setSteps((prev) => prev.map((s, i) => (i === 0 ? { ...s, progress: p } : s)))
-            setOverallProgress((p / 100) * weights.preprocessing)
-        }
-        setSteps((prev) => prev.map((s, i) => (i === 0 ? { ...s, status: "completed", progress: 100 } : s)))
-        setOverallProgress(weights.preprocessing)
-        pushLog("preprocessing completed")
-        await new Promise((r) => setTimeout(r, 400))
-
-        // ---- Step 2: Training (real backend) ----
-        // Step 2: Training
-        setSteps((prev) => prev.map((s, i) => ({
-            ...s,
-            status: i === 1 ? "running" : s.status,
-            progress: i === 1 ? 0 : s.progress,
-        })))
-
-        // Start training
         let jobId: string | null = null
-        try {
-            const res = await fetch("http://localhost:8003/model/train", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
+        // Where a resumed job picks up: still training, trained, generating, or with its rows already on the backend
+        let resumeAt: "training" | "generate" | "generating" | "results" = "training"
+        if (resumeFrom) {
+            // Reattach: make sure the job still exists before restoring the step list
+            jobId = resumeFrom.jobId
+            jobIdRef.current = jobId
+            pushLog(`resuming job_id=${jobId}`)
+            let status = ""
+            let reason: string | null = null
+            try {
+                const reported = await fetchStatus(jobId, signal)
+                status = safeLower(reported.status)
+                const phase = safeLower(reported.phase)
+                if (status === "failed" || status === "error") {
+                    reason = phase === "generation" ? "generation failed on the server" : "the job failed on the server"
+                } else if (phase === "generation") {
+                    // The model is trained either way; a generation cut short by the refresh is asked for again
+                    resumeAt = status === "completed" ? "results" : status === "cancelled" ? "generate" : "generating"
+                } else if (status === "cancelled") {
+                    reason = "the job was cancelled on the server"
+                } else if (status === "completed") {
+                    resumeAt = "generate"
+                }
+            } catch (e) {
+                if (isCancelled()) return
+                reason = e instanceof ApiError && e.status === 404 ? "the server no longer knows about it" : e instanceof Error ? e.message : String(e)
+            }
+            if (isCancelled()) return
+            if (reason) {
+                pushLog(`resume failed: ${reason}`)
+                onJobEnd?.(jobId, status === "cancelled" ? "cancelled" : "failed")
+                setResumeError(`Couldn't resume the previous run: ${reason}.`)
+                jobIdRef.current = null
+                onJobChange?.(null)
+                setIsGenerating(false)
+                return
+            }
+        }
+
+        // ---- Steps 1-2: Preprocessing and training (real backend) ----
+        // The backend profiles and encodes the dataset before training, and reports both as phases of the job
+        let current = 0
+        const markStep = (index: number, patch: Partial<GenerationStep>) =>
+            setSteps((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)))
+        markStep(0, { status: "running", progress: 0 })
+
+        if (!resumeFrom) {
+            try {
+                const data = await trainModel({
                     model_name: modelName,
                     dataset_id: datasetId,
-                }),
-            })
-            if (!res.ok) throw new Error("Failed to start model training")
-            const data = await res.json()
-            jobId = typeof data.job_id === "string" ? data.job_id : ""
-            jobIdRef.current = jobId
-            pushLog(`training started; job_id=${jobId}`)
-        } catch (e) {
-            pushLog(`training POST failed: ${e instanceof Error ? e.message : String(e)}`)
-            setSteps((prev) => prev.map((s, i) => (i === 1 ? { ...s, status: "error" } : s)))
-            return
+                    ...(schema ? { schema: toSchemaPayload(schema), column_policies: toPolicyPayload(schema) } : {}),
+                    ...(parameters.constraints?.length ? { constraints: parameters.constraints } : {}),
+                    ...(holdout.length ? { holdout_rows: holdout } : {}),
+                    ...(training ? { hyperparameters: training } : {}),
+                }, { signal })
+                effective = { ...effective, ...data.effective_parameters }
+                jobId = data.job_id
+                jobIdRef.current = jobId
+                onJobChange?.(jobId, effective)
+                pushLog(`training started; job_id=${jobId}`)
+            } catch (e) {
+                if (isCancelled()) return
+                pushLog(`training POST failed: ${e instanceof Error ? e.message : String(e)}`)
+                markStep(0, { status: "error" })
+                return
+            }
         }
 
-        // Poll until training completes
-        try {
-            const result = await pollUntilDone({
-                jobId: jobId!,
-                fetchStatus,
-                onTick: (percent, status) => {
-                    setLastTrainingStatus(`${status} (${percent}%)`)
-                    if (status === "running") setSeenRunningTraining(true)
-                    setSteps((prev) => prev.map((s, i) => (i === 1 ? { ...s, progress: percent } : s)))
-                    setOverallProgress(weights.preprocessing + (percent / 100) * weights.training)
-                },
-                requireRunning: false,
-                abortRef,
-                debug: (m) => pushLog(`training ${m}`),
-            })
-            if (result === "aborted") {
-                pushLog("training polling aborted; exiting run gracefully")
+        if (resumeAt === "training") {
+            // Follow the job until training finishes
+            try {
+                const result = await watchJob({
+                    jobId: jobId!,
+                    phases: ["preprocessing", "training"],
+                    signal,
+                    onChannel: (c) => {
+                        setChannel(c)
+                        pushLog(`training progress via ${c}`)
+                    },
+                    onProgress: (event) => {
+                        setLastTrainingStatus(`${event.phase} ${event.status} (${event.percent}%)`)
+                        if (event.phase === "preprocessing") {
+                            markStep(0, { progress: event.percent })
+                            setOverallProgress((event.percent / 100) * weights.preprocessing)
+                            return
+                        }
+                        // The first training event means preprocessing is done
+                        if (current === 0) {
+                            current = 1
+                            markStep(0, { status: "completed", progress: 100 })
+                            pushLog("preprocessing completed")
+                        }
+                        markStep(1, { status: "running", progress: event.percent, detail: describeProgress(event) })
+                        setOverallProgress(weights.preprocessing + (event.percent / 100) * weights.training)
+                    },
+                    onLog: (message) => pushLog(`training | ${message}`),
+                })
+                if (result === "aborted") return
+                if (result === "cancelled") {
+                    if (isCancelled()) return
+                    // Nothing here stopped the run, so the job was cancelled on the backend
+                    pushLog("training cancelled on the backend")
+                    onJobEnd?.(jobId!, "cancelled")
+                    onJobChange?.(null)
+                    markStep(current, { status: "cancelled" })
+                    setIsGenerating(false)
+                    return
+                }
+                markStep(0, { status: "completed", progress: 100 })
+                markStep(1, { status: "completed", progress: 100 })
+                setOverallProgress(weights.preprocessing + weights.training)
+                pushLog("training completed")
+            } catch (e) {
+                if (isCancelled()) return
+                pushLog(`${current === 0 ? "preprocessing" : "training"} failed: ${e instanceof Error ? e.message : String(e)}`)
+                onJobEnd?.(jobId!, "failed")
+                onJobChange?.(null)
+                markStep(current, { status: "error" })
                 return
             }
-            setSteps((prev) => prev.map((s, i) => (i === 1 ? { ...s, status: "completed", progress: 100 } : s)))
+        } else {
+            markStep(0, { status: "completed", progress: 100 })
+            markStep(1, { status: "completed", progress: 100 })
             setOverallProgress(weights.preprocessing + weights.training)
-            pushLog("training completed")
-            await new Promise((r) => setTimeout(r, 400))
-        } catch (e) {
-            pushLog(`training polling failed: ${e instanceof Error ? e.message : String(e)}`)
-            setSteps((prev) => prev.map((s, i) => (i === 1 ? { ...s, status: "error" } : s)))
-            return
+            pushLog(`training finished before the refresh; resuming at ${resumeAt}`)
         }
 
-        // Sanity re-check before generation: confirm backend says completed
-        try {
-            const ok = await assertCompleted(jobIdRef.current!)
-            if (!ok) {
-                pushLog("sanity check before generation FAILED: training not completed by status")
-                setSteps((prev) => prev.map((s, i) => (i === 1 ? { ...s, status: "error" } : s)))
-                return
+        if (isCancelled()) return
+
+        // DP runs: the backend's accountant reports the budget training actually spent
+        let privacySpent: PrivacyBudget | undefined
+        if (training?.dp_epsilon !== undefined) {
+            try {
+                privacySpent = (await fetchStatus(jobIdRef.current!, signal)).privacy_spent
+                pushLog(
+                    privacySpent
+                        ? `privacy budget spent: ${describeBudget(privacySpent)} (target ε = ${formatEpsilon(training.dp_epsilon)})`
+                        : "the backend did not report the privacy budget spent",
+                )
+            } catch (e) {
+                if (isCancelled()) return
+                // Not worth failing the run over; the results show the budget as unreported
+                pushLog(`privacy budget fetch failed: ${e instanceof Error ? e.message : String(e)}`)
             }
-            pushLog("sanity check before generation PASSED")
-        } catch (e) {
-            pushLog(`sanity check error: ${e instanceof Error ? e.message : String(e)}`)
         }
 
-        if (abortRef.current || runIdRef.current !== myRun) return
+        if (isCancelled()) return
 
         // ---- Step 3: Generation (real backend) ----
-        // Step 3: Generation
-        setSteps((prev) => prev.map((s, i) => ({
-            ...s,
-            status: i === 2 ? "running" : s.status,
-            progress: i === 2 ? 0 : s.progress,
-        })))
+        markStep(2, { status: "running", progress: 0 })
 
         const count = Math.min(100000, sampleCount)
-        try {
-            const res = await fetch(`http://localhost:8003/model/generate/${jobIdRef.current}?count=${count}`)
-            if (!res.ok) throw new Error("Failed to start generation")
-            const data = await res.json()
-            setGeneratedData({
-                job_id: data.job_id,
-                synthetic_data: data.synthetic_data,
+        const requestedParameters = { ...training, ...sampling, ...(holdout.length ? { holdout_rows: holdout.length } : {}) }
+        const onGenerationProgress = (event: JobProgressEvent) => {
+            setLastGenerationStatus(`${event.status} (${event.percent}%)`)
+            markStep(2, { progress: event.percent, detail: describeProgress(event) })
+            setOverallProgress(weights.preprocessing + weights.training + (event.percent / 100) * weights.generation)
+        }
+        const onGenerationLog = (message: string) => pushLog(`generation | ${message}`)
+        let generated: GeneratedData
+        if (resumeAt === "generating" || resumeAt === "results") {
+            // The rows asked for before the refresh stay on the backend: wait for them if they're still coming, then read them back
+            try {
+                if (resumeAt === "generating") {
+                    const result = await watchJob({
+                        jobId: jobIdRef.current!,
+                        phases: ["generation"],
+                        signal,
+                        onProgress: onGenerationProgress,
+                        onLog: onGenerationLog,
+                    })
+                    if (result === "aborted") return
+                    if (result === "cancelled") {
+                        if (isCancelled()) return
+                        pushLog("generation cancelled on the backend")
+                        onJobEnd?.(jobIdRef.current!, "cancelled")
+                        onJobChange?.(null)
+                        markStep(2, { status: "cancelled" })
+                        setIsGenerating(false)
+                        return
+                    }
+                }
+                const { total_rows } = await getResultsPage(jobIdRef.current!, 0, 1, { signal })
+                generated = {
+                    job_id: jobIdRef.current!,
+                    synthetic_data: [],
+                    total_rows,
+                    paged: true,
+                    requested_parameters: requestedParameters,
+                    effective_parameters: effective,
+                    conditions: parameters.conditions,
+                    constraints: parameters.constraints,
+                    privacy_spent: privacySpent,
+                }
+                pushLog(`generation finished before the refresh; rows=${total_rows} (kept on the backend)`)
+            } catch (e) {
+                if (isCancelled()) return
+                pushLog(`generation failed: ${e instanceof Error ? e.message : String(e)}`)
+                onJobEnd?.(jobIdRef.current!, "failed")
+                onJobChange?.(null)
+                markStep(2, { status: "error" })
+                return
+            }
+        } else {
+            // Generation progress only comes from the event stream; the request itself returns the rows
+            const generationWatch = new AbortController()
+            const stopGenerationWatch = () => generationWatch.abort()
+            signal.addEventListener("abort", stopGenerationWatch, { once: true })
+            watchJob({
+                jobId: jobIdRef.current!,
+                phases: ["generation"],
+                signal: generationWatch.signal,
+                pollingFallback: false,
+                onProgress: onGenerationProgress,
+                onLog: onGenerationLog,
+            }).catch(() => {
+                // Progress is cosmetic here; the generate request reports failures
+            })
+            try {
+                const conditions = parameters.conditions ?? []
+                if (conditions.length) pushLog(`conditions: ${conditions.map(describeCondition).join("; ")}`)
+                const data = await generateSamples(jobIdRef.current!, count, sampling, { signal }, conditions)
+                generated = {
+                    job_id: data.job_id,
+                    synthetic_data: data.synthetic_data ?? [],
+                    total_rows: data.total_rows,
+                    paged: !data.synthetic_data,
+                    requested_parameters: requestedParameters,
+                    effective_parameters: { ...effective, ...data.effective_parameters },
+                    conditions: parameters.conditions,
+                    constraints: parameters.constraints,
+                    rejected_rows: data.rejected_rows,
+                    privacy_spent: privacySpent,
+                }
+                pushLog(`generation POST ok; rows=${data.total_rows}${generated.paged ? " (kept on the backend)" : ""}`)
+                if (data.rejected_rows) pushLog(`${data.rejected_rows} rows redrawn to satisfy constraints`)
+            } catch (e) {
+                if (isCancelled()) return
+                pushLog(`generation POST failed: ${e instanceof Error ? e.message : String(e)}`)
+                onJobEnd?.(jobIdRef.current!, "failed")
+                onJobChange?.(null)
+                markStep(2, { status: "error" })
+                return
+            } finally {
+                stopGenerationWatch()
+                signal.removeEventListener("abort", stopGenerationWatch)
+            }
+        }
+        markStep(2, { status: "completed", progress: 100 })
+        setOverallProgress(weights.preprocessing + weights.training + weights.generation)
 
+        if (isCancelled()) return
 
-            }) // Pass generated data to parent component
-            console.log("Generated data:", data);
-            pushLog(`generation POST ok; count=${count}`)
+        // ---- Step 4: Validation (in the browser) ----
+        // Compares the generated rows against the uploaded file; the report is handed to the results step.
+        // Paged results are validated on a random sample of their rows, which also backs the results charts.
+        markStep(3, { status: "running", progress: 0 })
+        const validationProgress = (p: number) => {
+            markStep(3, { progress: p })
+            setOverallProgress(weights.preprocessing + weights.training + weights.generation + (p / 100) * weights.validation)
+        }
+        try {
+            if (!file?.content) throw new Error("The uploaded file contents are no longer available")
+            const sourceTable = parseTable(file.content, file.name)
+            const sourceSchema = schema ?? inferSchema(sourceTable)
+            const sourceRows = withoutTreatedColumns(sourceTable.rows, schema)
+            // Sample rows up to 30%, quality up to 80%, privacy the rest
+            if (generated.paged) {
+                generated.synthetic_data = await fetchSampleRows(generated.job_id, generated.total_rows ?? 0, VALIDATION_SAMPLE_ROWS, {
+                    signal,
+                    onProgress: (p) => validationProgress(Math.round(p * 0.3)),
+                })
+                pushLog(`validating on a random sample of ${generated.synthetic_data.length} of ${generated.total_rows} rows`)
+            }
+            const report = await computeQualityReportAsync(sourceRows, generated.synthetic_data, {
+                signal,
+                onProgress: (p) => validationProgress(generated.paged ? 30 + Math.round(p * 0.5) : Math.round(p * 0.8)),
+            })
+            const privacy = await computePrivacyReportAsync(
+                sourceRows,
+                generated.synthetic_data,
+                copyColumns(sourceSchema, toPolicyPayload(sourceSchema).map((p) => p.name)),
+                trainedHoldout(sourceRows.length, file.content, generated.effective_parameters),
+                { signal, onProgress: (p) => validationProgress(80 + Math.round(p * 0.2)) },
+            )
+            if (isCancelled()) return
+            setGeneratedData({ ...generated, quality_report: report, privacy_report: privacy })
+            pushLog(`validation completed; overall=${report.overall.toFixed(1)}% (${report.rating})`)
+            pushLog(
+                `privacy: ${privacy.risk} risk; ${privacy.exactCopies} exact copies` +
+                    (privacy.membershipAuc !== null ? `, membership AUC ${privacy.membershipAuc.toFixed(2)}` : "; no holdout"),
+            )
+            const constraints = generated.constraints ?? []
+            if (constraints.length) {
+                const broken = checkConstraints(generated.synthetic_data, constraints, dateColumns(schema)).filter((c) => c.violations > 0).length
+                pushLog(`constraint check: ${broken ? `${broken} of ${constraints.length} rules broken` : `all ${constraints.length} rules hold`}`)
+            }
         } catch (e) {
-            pushLog(`generation POST failed: ${e instanceof Error ? e.message : String(e)}`)
-            setSteps((prev) => prev.map((s, i) => (i === 2 ? { ...s, status: "error" } : s)))
+            if (isCancelled()) return
+            // The rows are still usable; results recompute what they can
+            pushLog(`validation failed: ${e instanceof Error ? e.message : String(e)}`)
+            setGeneratedData(generated)
+            jobIdRef.current = null
+            onJobChange?.(null)
+            markStep(3, { status: "error" })
             return
         }
-
-        // try {
-        //     // Small grace period to let backend flip to running
-        //     await new Promise((r) => setTimeout(r, 800))
-        //     const result = await pollUntilDone({
-        //         jobId: jobIdRef.current!,
-        //         fetchStatus,
-        //         onTick: (percent, status) => {
-        //             setLastGenerationStatus(`${status} (${percent}%)`)
-        //             if (status === "running") setSeenRunningGeneration(true)
-        //             setSteps((prev) => prev.map((s, i) => (i === 2 ? { ...s, progress: percent } : s)))
-        //             setOverallProgress(weights.preprocessing + weights.training + (percent / 100) * weights.generation)
-        //         },
-        //         requireRunning: true,
-        //         abortRef,
-        //         debug: (m) => pushLog(`generation ${m}`),
-        //     })
-        //     if (result === "aborted") {
-        //         pushLog("generation polling aborted; exiting run gracefully")
-        //         return
-        //     }
-        //     // setSteps((prev) => prev.map((s, i) => (i === 2 ? { ...s, status: "completed", progress: 100 } : s)))
-        //     setOverallProgress(weights.preprocessing + weights.training + weights.generation)
-        //     pushLog("generation completed")
-        //     await new Promise((r) => setTimeout(r, 400))
-        // } catch (e) {
-        //     pushLog(`generation polling failed: ${e instanceof Error ? e.message : String(e)}`)
-        //     setSteps((prev) => prev.map((s, i) => (i === 2 ? { ...s, status: "error" } : s)))
-        //     return
-        // }
-
-        // if (abortRef.current || runIdRef.current !== myRun) return
-
-        // ---- Step 4: Validation (simulate) ----
-        // Step 4: Validation
-        // setSteps((prev) => prev.map((s, i) => (i === 3 ? { ...s, status: "running", progress: 0 } : s)))
-        for (let p = 0; p <= 100; p += 20) {
-            if (abortRef.current || runIdRef.current !== myRun) return
-            await new Promise((r) => setTimeout(r, 100))
-            setSteps((prev) => prev.map((s, i) => (i === 3 ? { ...s, progress: p } : s)))
-            setOverallProgress(weights.preprocessing + weights.training + weights.generation + (p / 100) * weights.validation)
-        }
-        setSteps((prev) => prev.map((s, i) => (i === 3 ? { ...s, status: "completed", progress: 100 } : s)))
+        markStep(3, { status: "completed", progress: 100 })
         setOverallProgress(100)
-        pushLog("validation completed; run finished")
-        await new Promise((r) => setTimeout(r, 400))
+        pushLog("run finished")
+        await delay(400, signal)
+        if (isCancelled()) return
+        controllerRef.current = null
+        onJobChange?.(null)
         onNext()
     }
 
-    // Reset state when not generating
+    // Reattach to the job that was running before a refresh
     useEffect(() => {
-        if (!isGenerating) {
-            setSteps([
-                { id: "preprocessing", name: "Data Preprocessing", description: "Analyzing and preparing your data for training", status: "pending", progress: 0 },
-                { id: "training", name: "Model Training", description: "Training the AI model on your data patterns", status: "pending", progress: 0 },
-                { id: "generation", name: "Synthetic Generation", description: "Generating synthetic samples with your parameters", status: "pending", progress: 0 },
-                { id: "validation", name: "Quality Validation", description: "Validating the quality and privacy of generated data", status: "pending", progress: 0 },
-            ])
-            setOverallProgress(0)
-            setDebugLog([])
-            setLastTrainingStatus("-")
-            setLastGenerationStatus("-")
-            setSeenRunningTraining(false)
-            setSeenRunningGeneration(false)
-            jobIdRef.current = null
-            abortRef.current = false
+        if (resume) runGenerationPipeline(resume)
+        // Mount only: `resume` is fixed for the lifetime of this step
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [])
+
+    // Stop the run locally first so nothing else lands, then ask the backend to stop the job.
+    // The step list is kept so the ready screen can show where the run stopped.
+    const handleCancel = async () => {
+        abortRef.current = true
+        runIdRef.current += 1
+        controllerRef.current?.abort()
+        controllerRef.current = null
+        setSteps((prev) => prev.map((s) => (s.status === "running" ? { ...s, status: "cancelled" } : s)))
+        setIsGenerating(false)
+
+        const jobId = jobIdRef.current
+        jobIdRef.current = null
+        onJobChange?.(null)
+        pushLog(`run cancelled by user${jobId ? `; cancelling job_id=${jobId}` : ""}`)
+        if (!jobId) return
+        onJobEnd?.(jobId, "cancelled")
+        try {
+            const status = await cancelJob(jobId)
+            pushLog(`cancel ok; backend status=${status.status}`)
+        } catch (e) {
+            pushLog(`cancel request failed: ${e instanceof Error ? e.message : String(e)}`)
         }
-    }, [isGenerating])
+    }
 
     const getStepIcon = (step: GenerationStep) => {
         switch (step.status) {
@@ -367,6 +513,8 @@ export function DataGeneration({ file, model, parameters, onNext, setGeneratedDa
                 return <Play className="w-5 h-5 text-secondary animate-pulse" />
             case "error":
                 return <AlertTriangle className="w-5 h-5 text-destructive" />
+            case "cancelled":
+                return <Ban className="w-5 h-5 text-amber-500" />
             default:
                 return <div className="w-5 h-5 rounded-full border-2 border-muted-foreground" />
         }
@@ -379,8 +527,8 @@ export function DataGeneration({ file, model, parameters, onNext, setGeneratedDa
         return Math.max(30, Math.round(baseTime * (1 + sampleMultiplier) * qualityMultiplier))
     }
 
-    // Derived debug flags
-    const suspiciousFastGeneration = steps.find(s => s.id === 'generation')?.status === 'completed' && !seenRunningGeneration
+    const cancelledStep = steps.find((s) => s.status === "cancelled")
+    const validationFailed = steps[3]?.status === "error"
 
     return (
         <div className="max-w-4xl mx-auto space-y-6">
@@ -420,20 +568,17 @@ export function DataGeneration({ file, model, parameters, onNext, setGeneratedDa
             {/* Generation Progress */}
             {isGenerating && (
                 <Card>
-                    <CardHeader>
-                        <CardTitle className="text-lg">Generation Progress</CardTitle>
-                        <CardDescription>Overall Progress: {Math.round(overallProgress)}%</CardDescription>
+                    <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                        <div className="space-y-1.5">
+                            <CardTitle className="text-lg">Generation Progress</CardTitle>
+                            <CardDescription>Overall Progress: {Math.round(overallProgress)}%</CardDescription>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={handleCancel}>
+                            <Square className="w-4 h-4 mr-2" />
+                            Cancel
+                        </Button>
                     </CardHeader>
                     <CardContent className="space-y-6">
-                        {suspiciousFastGeneration && (
-                            <Alert>
-                                <AlertTriangle className="h-4 w-4" />
-                                <AlertDescription>
-                                    Generation finished without ever seeing a <span className="font-semibold">running</span> state. This usually means the backend returned a stale <code>completed</code> from a previous phase. Check the debug panel below.
-                                </AlertDescription>
-                            </Alert>
-                        )}
-
                         <Progress value={overallProgress} className="w-full" />
 
                         <div className="space-y-4">
@@ -448,12 +593,27 @@ export function DataGeneration({ file, model, parameters, onNext, setGeneratedDa
                                             )}
                                         </div>
                                         <div className="text-sm text-muted-foreground">{step.description}</div>
+                                        {step.status === "running" && step.detail && (
+                                            <div className="text-xs text-muted-foreground font-mono mt-1">{step.detail}</div>
+                                        )}
                                         {step.status === "running" && <Progress value={step.progress} className="w-full mt-2 h-2" />}
                                     </div>
                                 </div>
                             ))}
                         </div>
 
+                        {validationFailed && (
+                            <Alert variant="destructive">
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertDescription className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+                                    <span>Quality validation failed. The generated data is still available.</span>
+                                    <Button size="sm" variant="outline" onClick={onNext}>
+                                        Continue to Results
+                                    </Button>
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
                         {/* Debug Panel */}
                         <div className="mt-6 space-y-2">
                             <div className="text-sm font-semibold">Debug</div>
@@ -462,7 +622,7 @@ export function DataGeneration({ file, model, parameters, onNext, setGeneratedDa
                                     <CardHeader className="py-3">
                                         <CardTitle className="text-sm">Training Status</CardTitle>
                                         <CardDescription>
-                                            last: {lastTrainingStatus} | seen running: {String(seenRunningTraining)}
+                                            last: {lastTrainingStatus} | channel: {channel}
                                         </CardDescription>
                                     </CardHeader>
                                 </Card>
@@ -470,7 +630,7 @@ export function DataGeneration({ file, model, parameters, onNext, setGeneratedDa
                                     <CardHeader className="py-3">
                                         <CardTitle className="text-sm">Generation Status</CardTitle>
                                         <CardDescription>
-                                            last: {lastGenerationStatus} | seen running: {String(seenRunningGeneration)}
+                                            last: {lastGenerationStatus}
                                         </CardDescription>
                                     </CardHeader>
                                 </Card>
@@ -491,6 +651,37 @@ export function DataGeneration({ file, model, parameters, onNext, setGeneratedDa
                         <CardDescription>Click the button below to start generating your synthetic dataset</CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
+                        {resumeError && (
+                            <Alert variant="destructive">
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertDescription>{resumeError}</AlertDescription>
+                            </Alert>
+                        )}
+
+                        {cancelledStep && (
+                            <Alert className="border-amber-500/50">
+                                <Ban className="h-4 w-4 text-amber-500" />
+                                <AlertDescription>
+                                    <div className="space-y-2">
+                                        <div className="font-medium">
+                                            Generation was cancelled during {cancelledStep.name.toLowerCase()} ({cancelledStep.progress}%)
+                                        </div>
+                                        <div className="flex flex-wrap gap-3 text-xs">
+                                            {steps.map((step) => (
+                                                <span
+                                                    key={step.id}
+                                                    className={`flex items-center gap-1 ${step.status === "pending" ? "text-muted-foreground" : ""}`}
+                                                >
+                                                    {getStepIcon(step)}
+                                                    {step.name}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
                         <Alert>
                             <Zap className="h-4 w-4" />
                             <AlertDescription>
@@ -516,7 +707,7 @@ export function DataGeneration({ file, model, parameters, onNext, setGeneratedDa
                                 className="px-8"
                             >
                                 <Play className="w-4 h-4 mr-2" />
-                                Start Generation
+                                {cancelledStep ? "Start Again" : "Start Generation"}
                             </Button>
                         </div>
                     </CardContent>
@@ -0,0 +1,297 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, Filter } from "lucide-react"
+import { type Row, collectColumns, isMissing, isNumericColumn, toKey, toNumber } from "@/lib/tabular"
+import type { ResultPages } from "@/lib/result-pages"
+
+interface DataGridProps {
+    // With `pages`, only the leading rows (used for column types); the grid reads the rest page by page
+    synthetic: Row[]
+    source: Row[]
+    pages?: ResultPages | null
+}
+
+type SortDirection = "asc" | "desc"
+
+interface ColumnFilter {
+    text?: string
+    min?: string
+    max?: string
+}
+
+const ROW_HEIGHT = 32
+const VIEWPORT_HEIGHT = 480
+const OVERSCAN = 8
+const COLUMN_WIDTH = 160
+
+function compareValues(a: unknown, b: unknown, numeric: boolean): number {
+    // Missing values always sort last
+    const am = isMissing(a)
+    const bm = isMissing(b)
+    if (am || bm) return am === bm ? 0 : am ? 1 : -1
+    if (numeric) {
+        const an = toNumber(a)
+        const bn = toNumber(b)
+        if (an !== null && bn !== null) return an - bn
+    }
+    return toKey(a).localeCompare(toKey(b), undefined, { numeric: true })
+}
+
+function matchesFilter(value: unknown, filter: ColumnFilter, numeric: boolean): boolean {
+    if (numeric && (filter.min || filter.max)) {
+        const n = toNumber(value)
+        if (n === null) return false
+        if (filter.min && n < Number(filter.min)) return false
+        if (filter.max && n > Number(filter.max)) return false
+    }
+    if (filter.text) {
+        return toKey(value).toLowerCase().includes(filter.text.toLowerCase())
+    }
+    return true
+}
+
+export function DataGrid({ synthetic, source, pages }: DataGridProps) {
+    const [showOriginal, setShowOriginal] = useState(false)
+    const [sort, setSort] = useState<{ column: string; direction: SortDirection } | null>(null)
+    const [filters, setFilters] = useState<Record<string, ColumnFilter>>({})
+    const [hidden, setHidden] = useState<Set<string>>(new Set())
+    const [showColumnPicker, setShowColumnPicker] = useState(false)
+    const [showFilters, setShowFilters] = useState(false)
+    const [scrollTop, setScrollTop] = useState(0)
+    const viewportRef = useRef<HTMLDivElement>(null)
+    // Bumped when a page arrives so the visible window re-reads it
+    const [, setPageVersion] = useState(0)
+
+    // Sorting and filtering need every row, so they're off while reading pages from the backend
+    const remote = showOriginal ? null : (pages ?? null)
+    const rows = showOriginal ? source : synthetic
+    const columns = useMemo(() => collectColumns(rows), [rows])
+    const numericColumns = useMemo(() => new Set(columns.filter((c) => isNumericColumn(rows, c))), [rows, columns])
+    const visibleColumns = columns.filter((c) => !hidden.has(c))
+
+    const filtered = useMemo(() => {
+        const active = Object.entries(filters).filter(([, f]) => f.text || f.min || f.max)
+        if (!active.length) return rows
+        return rows.filter((r) => active.every(([c, f]) => matchesFilter(r[c], f, numericColumns.has(c))))
+    }, [rows, filters, numericColumns])
+
+    const sorted = useMemo(() => {
+        if (!sort) return filtered
+        const numeric = numericColumns.has(sort.column)
+        const sign = sort.direction === "asc" ? 1 : -1
+        return [...filtered].sort((a, b) => sign * compareValues(a[sort.column], b[sort.column], numeric))
+    }, [filtered, sort, numericColumns])
+
+    const rowCount = remote ? remote.total : sorted.length
+    const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+    const last = Math.min(rowCount, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN)
+    const windowRows: (Row | undefined)[] = remote
+        ? Array.from({ length: Math.max(0, last - first) }, (_, i) => remote.row(first + i))
+        : sorted.slice(first, last)
+
+    useEffect(() => remote?.subscribe(() => setPageVersion((v) => v + 1)), [remote])
+    useEffect(() => {
+        remote?.request(first, last)
+    }, [remote, first, last])
+
+    const resetScroll = () => {
+        if (viewportRef.current) viewportRef.current.scrollTop = 0
+        setScrollTop(0)
+    }
+
+    const toggleSort = (column: string) => {
+        setSort((prev) => {
+            if (prev?.column !== column) return { column, direction: "asc" }
+            if (prev.direction === "asc") return { column, direction: "desc" }
+            return null
+        })
+    }
+
+    const updateFilter = (column: string, patch: ColumnFilter) => {
+        setFilters((prev) => ({ ...prev, [column]: { ...prev[column], ...patch } }))
+        resetScroll()
+    }
+
+    const toggleColumn = (column: string) => {
+        setHidden((prev) => {
+            const next = new Set(prev)
+            if (next.has(column)) next.delete(column)
+            else next.add(column)
+            return next
+        })
+    }
+
+    const switchDataset = (original: boolean) => {
+        setShowOriginal(original)
+        setSort(null)
+        setFilters({})
+        resetScroll()
+    }
+
+    const gridWidth = visibleColumns.length * COLUMN_WIDTH
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <Button size="sm" variant={showOriginal ? "outline" : "default"} onClick={() => switchDataset(false)} className="h-7 text-xs">
+                        Synthetic
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant={showOriginal ? "default" : "outline"}
+                        onClick={() => switchDataset(true)}
+                        disabled={!source.length}
+                        className="h-7 text-xs"
+                    >
+                        Original
+                    </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">
+                        {remote
+                            ? `${remote.total.toLocaleString()} rows`
+                            : `${sorted.length.toLocaleString()} of ${rows.length.toLocaleString()} rows`}
+                    </span>
+                    <Button
+                        size="sm"
+                        variant={showFilters && !remote ? "secondary" : "outline"}
+                        onClick={() => setShowFilters((v) => !v)}
+                        disabled={Boolean(remote)}
+                        title={remote ? "Filtering isn't available for results kept on the server" : undefined}
+                        className="h-7 text-xs"
+                    >
+                        <Filter className="w-3 h-3 mr-1" />
+                        Filters
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant={showColumnPicker ? "secondary" : "outline"}
+                        onClick={() => setShowColumnPicker((v) => !v)}
+                        className="h-7 text-xs"
+                    >
+                        <Columns3 className="w-3 h-3 mr-1" />
+                        Columns
+                    </Button>
+                </div>
+            </div>
+
+            {showColumnPicker && (
+                <div className="flex flex-wrap gap-2 p-2 rounded-lg border bg-muted/30">
+                    {columns.map((c) => (
+                        <Badge
+                            key={c}
+                            variant={hidden.has(c) ? "outline" : "secondary"}
+                            className="cursor-pointer text-xs"
+                            onClick={() => toggleColumn(c)}
+                        >
+                            {c}
+                        </Badge>
+                    ))}
+                </div>
+            )}
+
+            <div
+                ref={viewportRef}
+                className="rounded-lg border overflow-auto"
+                style={{ height: VIEWPORT_HEIGHT }}
+                onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            >
+                <div style={{ width: gridWidth, minWidth: "100%" }}>
+                    <div className="sticky top-0 z-10 bg-card border-b">
+                        <div className="flex">
+                            {visibleColumns.map((c) => (
+                                <button
+                                    key={c}
+                                    type="button"
+                                    onClick={() => toggleSort(c)}
+                                    disabled={Boolean(remote)}
+                                    className="flex items-center gap-1 px-2 h-8 text-left text-xs font-medium hover:bg-muted/50 flex-shrink-0"
+                                    style={{ width: COLUMN_WIDTH }}
+                                    title={c}
+                                >
+                                    <span className="truncate">{c}</span>
+                                    {sort?.column === c ? (
+                                        sort.direction === "asc" ? (
+                                            <ArrowUp className="w-3 h-3 flex-shrink-0" />
+                                        ) : (
+                                            <ArrowDown className="w-3 h-3 flex-shrink-0" />
+                                        )
+                                    ) : (
+                                        !remote && <ArrowUpDown className="w-3 h-3 flex-shrink-0 opacity-40" />
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                        {showFilters && !remote && (
+                            <div className="flex border-t">
+                                {visibleColumns.map((c) => (
+                                    <div key={c} className="flex gap-1 p-1 flex-shrink-0" style={{ width: COLUMN_WIDTH }}>
+                                        {numericColumns.has(c) ? (
+                                            <>
+                                                <Input
+                                                    type="number"
+                                                    placeholder="min"
+                                                    value={filters[c]?.min ?? ""}
+                                                    onChange={(e) => updateFilter(c, { min: e.target.value })}
+                                                    className="h-6 text-xs px-1"
+                                                />
+                                                <Input
+                                                    type="number"
+                                                    placeholder="max"
+                                                    value={filters[c]?.max ?? ""}
+                                                    onChange={(e) => updateFilter(c, { max: e.target.value })}
+                                                    className="h-6 text-xs px-1"
+                                                />
+                                            </>
+                                        ) : (
+                                            <Input
+                                                placeholder="contains..."
+                                                value={filters[c]?.text ?? ""}
+                                                onChange={(e) => updateFilter(c, { text: e.target.value })}
+                                                className="h-6 text-xs px-1"
+                                            />
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="relative" style={{ height: rowCount * ROW_HEIGHT }}>
+                        {windowRows.map((row, i) => (
+                            <div
+                                key={first + i}
+                                className="absolute inset-x-0 flex border-b text-xs"
+                                style={{ top: (first + i) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                            >
+                                {visibleColumns.map((c) => (
+                                    <div
+                                        key={c}
+                                        className={`px-2 flex items-center flex-shrink-0 truncate ${numericColumns.has(c) ? "justify-end tabular-nums" : ""}`}
+                                        style={{ width: COLUMN_WIDTH }}
+                                        title={row ? toKey(row[c]) : undefined}
+                                    >
+                                        {!row ? (
+                                            <span className="text-muted-foreground">…</span>
+                                        ) : isMissing(row[c]) ? (
+                                            <span className="text-muted-foreground">—</span>
+                                        ) : (
+                                            toKey(row[c])
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {remote?.error() && <div className="text-xs text-destructive">Couldn&apos;t load rows: {remote.error()}</div>}
+        </div>
+    )
+}
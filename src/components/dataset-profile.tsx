@@ -0,0 +1,222 @@
+"use client"
+
+import { useMemo } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, AlertTriangle, ArrowRight, Database } from "lucide-react"
+import { parseTable } from "@/lib/tabular"
+import { COLUMN_TYPES } from "@/lib/schema"
+import { type ColumnProfile, type DatasetProfile, profileDrift, profileTable } from "@/lib/profile"
+import type { UploadedFile } from "./synthetic-data-platform"
+
+interface DatasetProfileReviewProps {
+    uploadedFile: UploadedFile
+    onContinue: (profile: DatasetProfile) => void
+}
+
+function formatNumber(value: number) {
+    const abs = Math.abs(value)
+    if (abs >= 1000) return value.toLocaleString("en-US", { maximumFractionDigits: 0 })
+    if (abs >= 10) return value.toFixed(1)
+    return value.toFixed(2)
+}
+
+const formatShare = (value: number) => `${(value * 100).toFixed(1)}%`
+
+function typeLabel(column: ColumnProfile) {
+    return COLUMN_TYPES.find((t) => t.value === column.type)?.label ?? column.type
+}
+
+// min–max and mean for numbers, the most frequent values for everything else
+function ColumnSummary({ column }: { column: ColumnProfile }) {
+    if (column.numeric) {
+        const { min, max, mean } = column.numeric
+        return (
+            <span className="tabular-nums">
+                {formatNumber(min)} – {formatNumber(max)}, mean {formatNumber(mean)}
+            </span>
+        )
+    }
+    if (!column.topValues.length) return <span className="text-muted-foreground">—</span>
+    return (
+        <span className="block truncate max-w-[260px]" title={column.topValues.map((v) => `${v.value} (${formatShare(v.share)})`).join("\n")}>
+            {column.topValues
+                .slice(0, 3)
+                .map((v) => `${v.value} (${formatShare(v.share)})`)
+                .join(", ")}
+        </span>
+    )
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+    return (
+        <div className="p-4 rounded-lg bg-muted/30">
+            <div className="text-xs text-muted-foreground">{label}</div>
+            <div className="text-lg font-semibold tabular-nums">{value}</div>
+        </div>
+    )
+}
+
+export function DatasetProfileReview({ uploadedFile, onContinue }: DatasetProfileReviewProps) {
+    const table = useMemo(() => parseTable(uploadedFile.content, uploadedFile.name), [uploadedFile])
+    const profile = useMemo(() => profileTable(table), [table])
+
+    if (!table.columns.length) {
+        return (
+            <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                    We couldn&apos;t find any columns in {uploadedFile.name}. Check that the file has a header row and try again.
+                </AlertDescription>
+            </Alert>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-2 p-4 bg-muted/30 rounded-lg">
+                <Database className="w-4 h-4 text-muted-foreground" />
+                <span className="text-sm font-medium">{uploadedFile.name}</span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Stat label="Rows" value={profile.rowCount.toLocaleString()} />
+                <Stat label="Columns" value={profile.columnCount.toLocaleString()} />
+                <Stat label="Missing cells" value={formatShare(profile.missingCells)} />
+                <Stat label="Duplicate rows" value={profile.duplicateRows.toLocaleString()} />
+            </div>
+
+            {profile.warnings.length > 0 && (
+                <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                        <ul className="list-disc pl-4 space-y-1">
+                            {profile.warnings.map((w) => (
+                                <li key={w}>{w}</li>
+                            ))}
+                        </ul>
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            <Card>
+                <CardContent className="p-0">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b text-xs text-muted-foreground">
+                                    <th className="text-left p-3 font-medium">Column</th>
+                                    <th className="text-left p-3 font-medium">Type</th>
+                                    <th className="text-right p-3 font-medium">Missing</th>
+                                    <th className="text-right p-3 font-medium">Distinct</th>
+                                    <th className="text-left p-3 font-medium">Values</th>
+                                    <th className="text-left p-3 font-medium">Warnings</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {profile.columns.map((c) => (
+                                    <tr key={c.name} className="border-b last:border-0 align-top">
+                                        <td className="p-3 font-medium">{c.name}</td>
+                                        <td className="p-3 text-xs">{typeLabel(c)}</td>
+                                        <td className="p-3 text-right tabular-nums">{formatShare(c.missingRate)}</td>
+                                        <td className="p-3 text-right tabular-nums">{c.distinct.toLocaleString()}</td>
+                                        <td className="p-3 text-xs">
+                                            <ColumnSummary column={c} />
+                                        </td>
+                                        <td className="p-3">
+                                            <div className="flex flex-wrap gap-1">
+                                                {c.warnings.map((w) => (
+                                                    <Badge key={w} variant="outline" className="text-xs">
+                                                        {w}
+                                                    </Badge>
+                                                ))}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <div className="flex justify-end">
+                <Button onClick={() => onContinue(profile)} disabled={!profile.rowCount} className="px-6">
+                    Continue to Schema
+                    <ArrowRight className="w-4 h-4 ml-2" />
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+interface ProfileComparisonProps {
+    baseline: DatasetProfile
+    synthetic: DatasetProfile
+}
+
+// The synthetic output's profile next to the source baseline, column by column
+export function ProfileComparison({ baseline, synthetic }: ProfileComparisonProps) {
+    const drift = useMemo(() => profileDrift(baseline, synthetic), [baseline, synthetic])
+    const byName = new Map(synthetic.columns.map((c) => [c.name, c]))
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Stat label="Rows" value={`${baseline.rowCount.toLocaleString()} → ${synthetic.rowCount.toLocaleString()}`} />
+                <Stat label="Columns" value={`${baseline.columnCount} → ${synthetic.columnCount}`} />
+                <Stat label="Missing cells" value={`${formatShare(baseline.missingCells)} → ${formatShare(synthetic.missingCells)}`} />
+                <Stat
+                    label="Duplicate rows"
+                    value={`${baseline.duplicateRows.toLocaleString()} → ${synthetic.duplicateRows.toLocaleString()}`}
+                />
+            </div>
+
+            <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="border-b text-xs text-muted-foreground">
+                            <th className="text-left p-3 font-medium">Column</th>
+                            <th className="text-right p-3 font-medium">Missing</th>
+                            <th className="text-right p-3 font-medium">Distinct</th>
+                            <th className="text-left p-3 font-medium">Original</th>
+                            <th className="text-left p-3 font-medium">Synthetic</th>
+                            <th className="text-left p-3 font-medium">Differences</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {baseline.columns.map((base) => {
+                            const syn = byName.get(base.name)
+                            return (
+                                <tr key={base.name} className="border-b last:border-0 align-top">
+                                    <td className="p-3 font-medium">{base.name}</td>
+                                    <td className="p-3 text-right tabular-nums whitespace-nowrap">
+                                        {formatShare(base.missingRate)} → {syn ? formatShare(syn.missingRate) : "—"}
+                                    </td>
+                                    <td className="p-3 text-right tabular-nums whitespace-nowrap">
+                                        {base.distinct.toLocaleString()} → {syn ? syn.distinct.toLocaleString() : "—"}
+                                    </td>
+                                    <td className="p-3 text-xs">
+                                        <ColumnSummary column={base} />
+                                    </td>
+                                    <td className="p-3 text-xs">{syn ? <ColumnSummary column={syn} /> : "—"}</td>
+                                    <td className="p-3">
+                                        <div className="flex flex-wrap gap-1">
+                                            {(drift.get(base.name) ?? []).map((note) => (
+                                                <Badge key={note} variant="outline" className="text-xs">
+                                                    {note}
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                    </td>
+                                </tr>
+                            )
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    )
+}
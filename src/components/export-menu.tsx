@@ -0,0 +1,46 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ChevronDown, Download, Loader2 } from "lucide-react"
+import { type ExportFormat, EXPORT_FORMATS } from "@/lib/export-formats"
+
+interface ExportMenuProps {
+    onSelect: (format: ExportFormat) => void
+    disabled?: boolean
+    // Shows a spinner while a file is being prepared
+    busy?: boolean
+    size?: "default" | "sm"
+    className?: string
+}
+
+export function ExportMenu({ onSelect, disabled, busy, size = "default", className }: ExportMenuProps) {
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button size={size} disabled={disabled || busy} className={className}>
+                    {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+                    Download
+                    <ChevronDown className="w-4 h-4 ml-2" />
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-64">
+                <DropdownMenuLabel className="text-xs text-muted-foreground">Format</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {EXPORT_FORMATS.map((format) => (
+                    <DropdownMenuItem key={format.value} onSelect={() => onSelect(format.value)} className="flex-col items-start gap-0">
+                        <span className="font-medium">{format.label}</span>
+                        <span className="text-xs text-muted-foreground">{format.description}</span>
+                    </DropdownMenuItem>
+                ))}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    )
+}
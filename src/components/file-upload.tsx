@@ -1,11 +1,21 @@
 "use client"
 
-import { useState, useCallback } from "react"
-import { useDropzone } from "react-dropzone"
-import { Upload, FileText, AlertCircle, Loader2 } from "lucide-react"
-import { Card, CardContent } from "@/components/ui/card"
+import { useState, useCallback, useMemo } from "react"
+import { type FileRejection, useDropzone } from "react-dropzone"
+import { Upload, FileText, FileSpreadsheet, AlertCircle, Loader2, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { uploadDataset } from "@/lib/api-client"
+import {
+    HEADER_ROW_CHOICES,
+    type WorkbookSheet,
+    guessHeaderRow,
+    isWorkbookFile,
+    loadWorkbook,
+    sheetToTable,
+    tableToCsv,
+} from "@/lib/workbook"
 import type { UploadedFile } from "./synthetic-data-platform"
 
 interface UploadedFileWithId extends UploadedFile {
@@ -16,52 +26,44 @@ interface FileUploadProps {
     onFileUpload: (file: UploadedFileWithId) => void
 }
 
+const PREVIEW_ROWS = 8
+
+interface PendingWorkbook {
+    file: File
+    sheets: WorkbookSheet[]
+    sheetIndex: number
+    headerRow: number
+}
+
+// Shortened cell text for the header row choices
+function rowSummary(values: string[]) {
+    const text = values.filter(Boolean).slice(0, 4).join(", ")
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text || "(empty)"
+}
+
 export function FileUpload({ onFileUpload }: FileUploadProps) {
     const [error, setError] = useState<string | null>(null)
     const [uploading, setUploading] = useState<boolean>(false)
     const [uploadSuccess, setUploadSuccess] = useState<boolean>(false)
+    const [readingWorkbook, setReadingWorkbook] = useState<boolean>(false)
+    const [workbook, setWorkbook] = useState<PendingWorkbook | null>(null)
 
-    const onDrop = useCallback(
-        async (acceptedFiles: File[]) => {
-            const file = acceptedFiles[0]
-            if (!file) return
-
-            // Validate file size (max 10MB)
-            if (file.size > 50 * 1024 * 1024) {
-                setError("File size must be less than 50MB")
-                return
-            }
-
+    const upload = useCallback(
+        async (file: File, content: string) => {
             setUploading(true)
             setError(null)
             setUploadSuccess(false)
             try {
-                const formData = new FormData()
-                formData.append("file", file)
-                const response = await fetch("http://localhost:8003/dataset/upload", {
-                    method: "POST",
-                    body: formData,
-                })
-                if (!response.ok) {
-                    throw new Error("Failed to upload file")
-                }
-                const data = await response.json();
-                const dataset_id = data.dataset_id;
+                const { dataset_id } = await uploadDataset(file)
                 setUploadSuccess(true)
-                // Read file content as before for local use
-                const reader = new FileReader()
-                reader.onload = (e) => {
-                    const content = e.target?.result as string
-                    const uploadedFile: UploadedFileWithId = {
-                        name: file.name,
-                        size: file.size,
-                        type: file.type,
-                        content: content,
-                        dataset_id: dataset_id,
-                    }
-                    onFileUpload(uploadedFile)
-                }
-                reader.readAsText(file)
+                setWorkbook(null)
+                onFileUpload({
+                    name: file.name,
+                    size: file.size,
+                    type: file.type,
+                    content,
+                    dataset_id,
+                })
             } catch (err: unknown) {
                 if (err instanceof Error) {
                     setError(err.message)
@@ -75,18 +77,84 @@ export function FileUpload({ onFileUpload }: FileUploadProps) {
         [onFileUpload],
     )
 
+    const onDrop = useCallback(
+        async (acceptedFiles: File[], rejections: FileRejection[]) => {
+            const file = acceptedFiles[0]
+            // The picker filters by type, but a dragged file can be anything
+            if (!file) {
+                const rejected = rejections[0]?.file.name
+                if (rejected) {
+                    setError(
+                        /\.xls$/i.test(rejected)
+                            ? "Legacy .xls workbooks aren't supported. Save it as .xlsx or CSV and try again."
+                            : "Unsupported file type. Upload a CSV, JSON, TXT or XLSX file.",
+                    )
+                }
+                return
+            }
+
+            // Validate file size (max 50MB)
+            if (file.size > 50 * 1024 * 1024) {
+                setError("File size must be less than 50MB")
+                return
+            }
+
+            setError(null)
+            setUploadSuccess(false)
+            setWorkbook(null)
+            if (!isWorkbookFile(file.name)) {
+                await upload(file, await file.text())
+                return
+            }
+
+            // Workbooks wait for a sheet and header row before anything is uploaded
+            setReadingWorkbook(true)
+            try {
+                const sheets = await loadWorkbook(await file.arrayBuffer())
+                const sheetIndex = sheets.findIndex((s) => s.cells.length > 0)
+                if (sheetIndex < 0) throw new Error("The workbook has no sheets with data")
+                setWorkbook({ file, sheets, sheetIndex, headerRow: guessHeaderRow(sheets[sheetIndex]) })
+            } catch (err: unknown) {
+                setError(err instanceof Error ? err.message : "Failed to read workbook")
+            } finally {
+                setReadingWorkbook(false)
+            }
+        },
+        [upload],
+    )
+
+    const sheet = workbook ? workbook.sheets[workbook.sheetIndex] : null
+    const table = useMemo(() => (sheet && workbook ? sheetToTable(sheet, workbook.headerRow) : null), [sheet, workbook])
+
+    const selectSheet = (sheetIndex: number) => {
+        if (!workbook) return
+        setWorkbook({ ...workbook, sheetIndex, headerRow: guessHeaderRow(workbook.sheets[sheetIndex]) })
+    }
+
+    // The chosen sheet goes up as CSV, named after the workbook and sheet
+    const uploadSheet = async () => {
+        if (!workbook || !sheet || !table) return
+        const csv = tableToCsv(table)
+        const base = workbook.file.name.replace(/\.xlsx$/i, "")
+        const name = workbook.sheets.length > 1 ? `${base} (${sheet.name}).csv` : `${base}.csv`
+        await upload(new File([csv], name, { type: "text/csv" }), csv)
+    }
+
     const { getRootProps, getInputProps, isDragActive } = useDropzone({
         onDrop,
         accept: {
             "text/csv": [".csv"],
             "application/json": [".json"],
             "text/plain": [".txt"],
-            "application/vnd.ms-excel": [".xls"],
             "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
         },
         multiple: false,
+        disabled: uploading || readingWorkbook,
     })
 
+    const busy = uploading || readingWorkbook
+    const selectClass = "h-8 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-zinc-900 px-2 text-xs"
+
     return (
         <div className="space-y-4">
             <Card>
@@ -104,21 +172,23 @@ export function FileUpload({ onFileUpload }: FileUploadProps) {
                         <p className="text-sm text-muted-foreground mb-3">
                             {isDragActive ? "Drop it now..." : "or click to browse files"}
                         </p>
-                        <Button variant="outline" size="sm" disabled={uploading}>
-                            {uploading ? (
+                        <Button variant="outline" size="sm" disabled={busy}>
+                            {busy ? (
                                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                             ) : (
                                 <FileText className="w-4 h-4 mr-2" />
                             )}
-                            {uploading ? "Uploading..." : "Choose File"}
+                            {uploading ? "Uploading..." : readingWorkbook ? "Reading..." : "Choose File"}
                         </Button>
-                        <div className="text-xs text-muted-foreground mt-2">CSV, JSON, TXT, XLS, XLSX • Max 50MB</div>
+                        <div className="text-xs text-muted-foreground mt-2">CSV, JSON, TXT, XLSX • Max 50MB</div>
                     </div>
 
-                    {uploading && (
+                    {busy && (
                         <div className="mt-4 flex justify-center">
                             <Loader2 className="w-6 h-6 animate-spin text-blue-600 mr-2" />
-                            <span className="text-sm text-blue-600 self-center">Uploading file...</span>
+                            <span className="text-sm text-blue-600 self-center">
+                                {uploading ? "Uploading file..." : "Reading workbook..."}
+                            </span>
                         </div>
                     )}
                     {uploadSuccess && !error && (
@@ -135,6 +205,97 @@ export function FileUpload({ onFileUpload }: FileUploadProps) {
                 </CardContent>
             </Card>
 
+            {workbook && sheet && table && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-base">
+                            <FileSpreadsheet className="w-5 h-5 text-green-600" />
+                            {workbook.file.name}
+                        </CardTitle>
+                        <CardDescription>
+                            Choose the sheet and the row that holds the column names. The sheet is uploaded as CSV.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="flex flex-wrap gap-4 text-sm">
+                            <label className="flex items-center gap-2">
+                                Sheet
+                                <select
+                                    value={workbook.sheetIndex}
+                                    onChange={(e) => selectSheet(Number(e.target.value))}
+                                    className={selectClass}
+                                    disabled={uploading}
+                                >
+                                    {workbook.sheets.map((s, i) => (
+                                        <option key={s.name} value={i} disabled={!s.cells.length}>
+                                            {s.name}
+                                            {s.cells.length ? "" : " (empty)"}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-2">
+                                Header row
+                                <select
+                                    value={workbook.headerRow}
+                                    onChange={(e) => setWorkbook({ ...workbook, headerRow: Number(e.target.value) })}
+                                    className={`${selectClass} max-w-[320px]`}
+                                    disabled={uploading}
+                                >
+                                    {sheet.cells.slice(0, HEADER_ROW_CHOICES).map((values, i) => (
+                                        <option key={i} value={i}>
+                                            {`Row ${i + 1}: ${rowSummary(values)}`}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <span className="self-center text-muted-foreground">
+                                {table.rows.length.toLocaleString()} rows × {table.columns.length} columns
+                            </span>
+                        </div>
+
+                        <div className="overflow-x-auto rounded-md border">
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="border-b bg-muted/50">
+                                        {table.columns.map((c) => (
+                                            <th key={c} className="text-left p-2 font-medium whitespace-nowrap">
+                                                {c}
+                                            </th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                                        <tr key={i} className="border-b last:border-0">
+                                            {table.columns.map((c) => (
+                                                <td key={c} className="p-2 whitespace-nowrap max-w-[200px] truncate" title={row[c]}>
+                                                    {row[c]}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {table.rows.length === 0 && (
+                            <p className="text-sm text-muted-foreground">No data rows below the header row.</p>
+                        )}
+
+                        <div className="flex justify-between">
+                            <Button variant="outline" onClick={() => setWorkbook(null)} disabled={uploading}>
+                                <X className="w-4 h-4 mr-2" />
+                                Cancel
+                            </Button>
+                            <Button onClick={uploadSheet} disabled={uploading || !table.rows.length || !table.columns.length}>
+                                {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                                Upload Sheet
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
             <div className="text-center">
                 <p className="text-sm text-muted-foreground">Upload → Analyze → Select Model → Configure → Generate</p>
             </div>
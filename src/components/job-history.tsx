@@ -0,0 +1,239 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, BarChart3, Copy, History, Loader2, RefreshCw } from "lucide-react"
+import { type JobOutput, type JobRecord, type JobRecordStatus, getJobOutput, listJobs } from "@/lib/job-history"
+import { type ExportFormat, downloadJobResults, downloadRows } from "@/lib/export"
+import { policyLabel, toPolicyPayload } from "@/lib/pii"
+import { describeCondition } from "@/lib/conditions"
+import { describeConstraint } from "@/lib/constraints"
+import { budgetMetadata, describeBudget, formatEpsilon } from "@/lib/privacy-budget"
+import { ExportMenu } from "./export-menu"
+
+interface JobHistoryProps {
+    onOpenResults: (record: JobRecord, output: JobOutput) => void
+    onClone: (record: JobRecord, source: string) => void
+}
+
+function getStatusVariant(status: JobRecordStatus) {
+    switch (status) {
+        case "completed":
+            return "secondary" as const
+        case "failed":
+            return "destructive" as const
+        default:
+            return "outline" as const
+    }
+}
+
+function formatTimestamp(iso: string) {
+    return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+// Runs from before the epsilon/delta controls only have the old privacy slider value
+function privacyParameter(job: JobRecord) {
+    if (job.model.privacySupport === "none") return ""
+    const budget = job.parameters.privacyBudget
+    if (budget) return `ε ${formatEpsilon(budget.epsilon)} · `
+    return budget === null ? "DP off · " : `P ${job.parameters.privacy}% · `
+}
+
+export function JobHistory({ onOpenResults, onClone }: JobHistoryProps) {
+    const [jobs, setJobs] = useState<JobRecord[] | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [busyJobId, setBusyJobId] = useState<string | null>(null)
+
+    const load = useCallback(async () => {
+        setError(null)
+        try {
+            setJobs(await listJobs())
+        } catch (e) {
+            setJobs([])
+            setError(e instanceof Error ? e.message : "Failed to load job history")
+        }
+    }, [])
+
+    useEffect(() => {
+        load()
+    }, [load])
+
+    // Outputs are read on demand so the list stays light
+    const withOutput = async (record: JobRecord, action: (output: JobOutput) => void) => {
+        setBusyJobId(record.jobId)
+        setError(null)
+        try {
+            const output = await getJobOutput(record.jobId)
+            if (!output) throw new Error("The stored data for this run is no longer available")
+            action(output)
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e))
+        } finally {
+            setBusyJobId(null)
+        }
+    }
+
+    const handleDownload = async (record: JobRecord, format: ExportFormat) => {
+        const fileBase = `synthetic_data_${record.jobId}`
+        setBusyJobId(record.jobId)
+        setError(null)
+        try {
+            if (record.paged) {
+                // Only a sample of the rows is stored locally; the full file comes from the backend while it still has it
+                await downloadJobResults(record.jobId, format, fileBase)
+            } else {
+                const output = await getJobOutput(record.jobId)
+                if (!output) throw new Error("The stored data for this run is no longer available")
+                const metadata = budgetMetadata(record.parameters.privacyBudget ?? null, record.privacySpent)
+                await downloadRows(output.synthetic ?? [], format, fileBase, record.schema, metadata)
+            }
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e))
+        } finally {
+            setBusyJobId(null)
+        }
+    }
+
+    if (jobs === null) {
+        return (
+            <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading history…
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <History className="w-4 h-4 text-muted-foreground" />
+                    <span className="text-sm font-medium">{jobs.length} runs</span>
+                </div>
+                <Button variant="outline" size="sm" onClick={load}>
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Refresh
+                </Button>
+            </div>
+
+            {error && (
+                <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                </Alert>
+            )}
+
+            {!jobs.length && !error && (
+                <Card>
+                    <CardContent className="py-12 text-center text-sm text-muted-foreground">
+                        No runs yet. Jobs you start in this browser will show up here.
+                    </CardContent>
+                </Card>
+            )}
+
+            {jobs.map((job) => {
+                const busy = busyJobId === job.jobId
+                const hasOutput = job.status === "completed"
+                const treatments = job.schema ? toPolicyPayload(job.schema) : []
+                return (
+                    <Card key={job.jobId}>
+                        <CardHeader className="pb-3">
+                            <div className="flex items-start justify-between gap-4">
+                                <div className="min-w-0">
+                                    <CardTitle className="text-base truncate" title={job.file.name}>
+                                        {job.file.name}
+                                    </CardTitle>
+                                    <CardDescription className="text-xs">
+                                        {formatTimestamp(job.createdAt)} · <span className="font-mono">{job.jobId}</span>
+                                    </CardDescription>
+                                </div>
+                                <Badge variant={getStatusVariant(job.status)} className="capitalize">
+                                    {job.status}
+                                </Badge>
+                            </div>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+                                <div>
+                                    <div className="text-muted-foreground">Model</div>
+                                    <div className="font-medium truncate" title={job.model.name}>
+                                        {job.model.name}
+                                    </div>
+                                </div>
+                                <div>
+                                    <div className="text-muted-foreground">Parameters</div>
+                                    <div className="font-medium">
+                                        {privacyParameter(job)}Q {job.parameters.quality}% · D {job.parameters.diversity}%
+                                    </div>
+                                </div>
+                                <div>
+                                    <div className="text-muted-foreground">Samples</div>
+                                    <div className="font-medium">
+                                        {(job.sampleCount ?? 0).toLocaleString()} / {job.parameters.samples.toLocaleString()}
+                                    </div>
+                                </div>
+                                <div>
+                                    <div className="text-muted-foreground">Quality</div>
+                                    <div className="font-medium">
+                                        {job.metrics ? `${job.metrics.overall.toFixed(1)}% · ${job.metrics.rating}` : "—"}
+                                    </div>
+                                </div>
+                            </div>
+
+                            {treatments.length > 0 && (
+                                <div className="text-xs">
+                                    <span className="text-muted-foreground">Privacy treatments: </span>
+                                    {treatments.map((t) => `${t.name} (${policyLabel(t.action).toLowerCase()})`).join(", ")}
+                                </div>
+                            )}
+
+                            {!!job.parameters.conditions?.length && (
+                                <div className="text-xs">
+                                    <span className="text-muted-foreground">Conditions: </span>
+                                    {job.parameters.conditions.map(describeCondition).join("; ")}
+                                </div>
+                            )}
+
+                            {job.parameters.privacyBudget && (
+                                <div className="text-xs">
+                                    <span className="text-muted-foreground">Differential privacy: </span>
+                                    target {describeBudget(job.parameters.privacyBudget)}
+                                    {job.privacySpent
+                                        ? `; spent ${describeBudget(job.privacySpent)}`
+                                        : job.status === "completed" && "; spent budget not reported"}
+                                </div>
+                            )}
+
+                            {!!job.parameters.constraints?.length && (
+                                <div className="text-xs">
+                                    <span className="text-muted-foreground">Constraints: </span>
+                                    {job.parameters.constraints.map(describeConstraint).join("; ")}
+                                </div>
+                            )}
+
+                            <div className="flex flex-wrap gap-2">
+                                <ExportMenu size="sm" disabled={!hasOutput} busy={busy} onSelect={(format) => handleDownload(job, format)} />
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={!hasOutput || busy}
+                                    onClick={() => withOutput(job, (output) => onOpenResults(job, output))}
+                                >
+                                    <BarChart3 className="w-4 h-4 mr-2" />
+                                    Open Results
+                                </Button>
+                                <Button size="sm" disabled={busy} onClick={() => withOutput(job, (output) => onClone(job, output.source))}>
+                                    <Copy className="w-4 h-4 mr-2" />
+                                    Clone Configuration
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+                )
+            })}
+        </div>
+    )
+}
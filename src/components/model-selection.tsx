@@ -1,61 +1,52 @@
 "use client"
 
-import { useState } from "react"
+import { useCallback, useEffect, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Brain, Database, FileText, ImageIcon, CheckCircle } from "lucide-react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Brain, Database, FileText, ImageIcon, CheckCircle, AlertCircle, Loader2 } from "lucide-react"
+import { type ColumnSchema, COLUMN_TYPES } from "@/lib/schema"
+import { type CatalogModel, type PrivacySupport, listModels } from "@/lib/api-client"
 import type { UploadedFile, ModelConfig } from "./synthetic-data-platform"
 
 interface ModelSelectionProps {
     uploadedFile: UploadedFile
+    schema: ColumnSchema[] | null
     onModelSelect: (model: ModelConfig) => void
 }
 
-const availableModels: ModelConfig[] = [
-    {
-        id: "tabular-finetune",
-        name: "Everyday Table Synthesizer",
-        description: "Best for most tabular data! Create realistic, privacy-safe tables for analytics, sharing, or product demos. Handles numbers, categories, text, and more.",
-        type: "tabular",
-        details: [
-            "Works with: Numbers, categories, text, JSON, events",
-            "Privacy: Optional, you choose"
-        ]
-    },
-    {
-        id: "text-finetune",
-        name: "Story Spinner",
-        description: "Turn your text into new, privacy-friendly stories, notes, or documents. Great for anonymizing sensitive text or creating training data.",
-        type: "text",
-        details: [
-            "Works with: Text",
-            "Privacy: Optional, you choose"
-        ]
-    },
-    {
-        id: "tabular-gan",
-        name: "Big Data Mixer",
-        description: "For large, complex tables! Quickly remix big datasets (50+ columns) while keeping important relationships between columns intact.",
-        type: "tabular",
-        details: [
-            "Works with: Numbers, categories",
-            "Privacy: Not supported"
-        ]
-    },
-    {
-        id: "tabular-dp",
-        name: "Privacy Guardian",
-        description: "Need maximum privacy? This model creates safe, basic tables for analytics and reporting—perfect when privacy is your top concern.",
-        type: "tabular",
+const PRIVACY_LABELS: Record<PrivacySupport, string> = {
+    none: "Not supported",
+    optional: "Optional, you choose",
+    required: "Always on, required",
+}
+
+const COLUMN_TYPE_LABELS: Record<string, string> = Object.fromEntries(COLUMN_TYPES.map((t) => [t.value, t.label]))
+
+function toModelConfig(model: CatalogModel): ModelConfig {
+    return {
+        id: model.id,
+        modelName: model.model_name,
+        name: model.name,
+        description: model.description,
+        type: model.type,
+        capabilities: model.capabilities,
+        supportedColumnTypes: model.supported_column_types,
+        privacySupport: model.privacy_support,
+        parameterSchema: model.parameters,
         details: [
-            "Works with: Numbers, categories",
-            "Privacy: Always on, required"
-        ]
-    },
-]
+            `Works with: ${model.supported_column_types.map((t) => COLUMN_TYPE_LABELS[t] ?? t).join(", ")}`,
+            `Privacy: ${PRIVACY_LABELS[model.privacy_support]}`,
+        ],
+    }
+}
 
-function getDataType(file: UploadedFile): "tabular" | "text" | "image" {
+function getDataType(file: UploadedFile, schema: ColumnSchema[] | null): "tabular" | "text" | "image" {
+    // A confirmed schema is more reliable than the file extension
+    if (schema?.length) {
+        return schema.length === 1 && schema[0].type === "text" ? "text" : "tabular"
+    }
     if (
         file.type.includes("csv") ||
         file.type.includes("excel") ||
@@ -83,11 +74,40 @@ function getModelIcon(type: string) {
     }
 }
 
-export function ModelSelection({ uploadedFile, onModelSelect }: ModelSelectionProps) {
+export function ModelSelection({ uploadedFile, schema, onModelSelect }: ModelSelectionProps) {
     const [selectedModel, setSelectedModel] = useState<ModelConfig | null>(null)
-    const detectedType = getDataType(uploadedFile)
+    const [availableModels, setAvailableModels] = useState<ModelConfig[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const detectedType = getDataType(uploadedFile, schema)
     const recommendedModels = availableModels.filter((model) => model.type === detectedType)
 
+    const loadModels = useCallback(async (signal?: AbortSignal) => {
+        setLoading(true)
+        setError(null)
+        try {
+            const models = await listModels({ signal })
+            setAvailableModels(models.map(toModelConfig))
+        } catch (err: unknown) {
+            if (signal?.aborted) return
+            setError(err instanceof Error ? err.message : "Failed to load models")
+        } finally {
+            if (!signal?.aborted) setLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        const controller = new AbortController()
+        loadModels(controller.signal)
+        return () => controller.abort()
+    }, [loadModels])
+
+    // Confirmed column types the model can't handle
+    const getUnsupportedTypes = (model: ModelConfig) => {
+        if (!schema) return []
+        return Array.from(new Set(schema.map((c) => c.type))).filter((t) => !model.supportedColumnTypes.includes(t))
+    }
+
     const handleModelSelect = (model: ModelConfig) => {
         setSelectedModel(model)
     }
@@ -113,10 +133,31 @@ export function ModelSelection({ uploadedFile, onModelSelect }: ModelSelectionPr
 
             <div>
                 <h3 className="text-base font-semibold mb-4 text-primary">Synthetic Models</h3>
+                {loading && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Loading models...
+                    </div>
+                )}
+                {error && (
+                    <Alert variant="destructive" className="mb-4">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription className="flex items-center justify-between gap-4">
+                            {error}
+                            <Button variant="outline" size="sm" onClick={() => loadModels()}>
+                                Retry
+                            </Button>
+                        </AlertDescription>
+                    </Alert>
+                )}
+                {!loading && !error && recommendedModels.length === 0 && (
+                    <div className="text-sm text-muted-foreground">No models available for {detectedType} data.</div>
+                )}
                 <div className="flex flex-col gap-4">
                     {recommendedModels.map((model) => {
                         const Icon = getModelIcon(model.type)
                         const isSelected = selectedModel?.id === model.id
+                        const unsupported = getUnsupportedTypes(model)
 
                         return (
                             <Card
@@ -137,6 +178,20 @@ export function ModelSelection({ uploadedFile, onModelSelect }: ModelSelectionPr
                                         ))}
                                     </ul>
                                 )}
+                                {(model.capabilities.length > 0 || unsupported.length > 0) && (
+                                    <div className="flex flex-wrap gap-1 mt-2">
+                                        {model.capabilities.map((c) => (
+                                            <Badge key={c} variant="secondary" className="text-xs">
+                                                {c}
+                                            </Badge>
+                                        ))}
+                                        {unsupported.length > 0 && (
+                                            <Badge variant="outline" className="text-xs text-destructive">
+                                                Unsupported: {unsupported.map((t) => COLUMN_TYPE_LABELS[t] ?? t).join(", ")}
+                                            </Badge>
+                                        )}
+                                    </div>
+                                )}
                             </Card>
                         )
                     })}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useMemo, useState } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
@@ -8,35 +8,177 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
 import { Settings, Zap } from "lucide-react"
-import type { ModelConfig, GenerationParameters } from "./synthetic-data-platform"
+import type { ModelConfig, GenerationParameters, UploadedFile } from "./synthetic-data-platform"
+import { ConditionsEditor } from "./conditions-editor"
+import { ConstraintsEditor } from "./constraints-editor"
+import { PrivacyBudgetControls } from "./privacy-budget-controls"
+import {
+    type ParameterField,
+    type ParameterKey,
+    getParameterSchema,
+    normalizeParameters,
+    validateParameters,
+} from "@/lib/parameter-schema"
+import type { ColumnSchema } from "@/lib/schema"
+import { type GenerationCondition, validateConditions } from "@/lib/conditions"
+import { type Constraint, validateConstraints } from "@/lib/constraints"
+import { type PrivacyBudget, resolveBudget, validateBudget } from "@/lib/privacy-budget"
+import { holdoutCount } from "@/lib/privacy-metrics"
+import { PARAMETER_LABELS } from "@/lib/hyperparameters"
+import { parseTable } from "@/lib/tabular"
 
 interface ParameterControlsProps {
     model: ModelConfig
+    // Source file and confirmed schema, for the columns and values conditions and constraints can use,
+    // and the row count the privacy budget's delta is checked against
+    file: UploadedFile | null
+    schema: ColumnSchema[] | null
     parameters: GenerationParameters
     onParametersChange: (params: GenerationParameters) => void
     onNext: (params: GenerationParameters) => void
 }
 
-export function ParameterControls({ model, parameters, onParametersChange, onNext }: ParameterControlsProps) {
-    const [localParams, setLocalParams] = useState<GenerationParameters>(parameters)
+function formatCount(n: number) {
+    return n >= 1000 ? `${n / 1000}K` : String(n)
+}
+
+export function ParameterControls({ model, file, schema: columnSchema, parameters, onParametersChange, onNext }: ParameterControlsProps) {
+    const schema = useMemo(() => getParameterSchema(model), [model])
+    const rowCount = useMemo(() => (file ? parseTable(file.content, file.name).rows.length : 0), [file])
+    const [localParams, setLocalParams] = useState<GenerationParameters>(() => ({
+        ...parameters,
+        ...normalizeParameters(schema, parameters),
+        privacyBudget: resolveBudget(model.privacySupport, parameters.privacyBudget, rowCount),
+    }))
+    // Raw input text per integer field, so an empty or out-of-range value can be typed and flagged
+    const [drafts, setDrafts] = useState<Record<string, string>>({})
+
+    const values = useMemo(() => {
+        const out: Partial<GenerationParameters> = { ...localParams }
+        for (const [key, text] of Object.entries(drafts)) {
+            out[key as ParameterKey] = text.trim() === "" ? undefined : Number(text)
+        }
+        return out
+    }, [localParams, drafts])
+
+    const errors = useMemo(() => validateParameters(schema, values), [schema, values])
+    const conditions = useMemo(() => localParams.conditions ?? [], [localParams.conditions])
+    const conditionErrors = useMemo(() => validateConditions(conditions), [conditions])
+    const constraints = useMemo(() => localParams.constraints ?? [], [localParams.constraints])
+    // Columns the output will have: dropped columns can't be constrained
+    const outputColumns = useMemo(() => {
+        if (columnSchema) return columnSchema.filter((c) => c.policy !== "drop").map((c) => c.name)
+        return file ? parseTable(file.content, file.name).columns : []
+    }, [columnSchema, file])
+    const constraintErrors = useMemo(() => validateConstraints(constraints, outputColumns), [constraints, outputColumns])
+    const budget = localParams.privacyBudget ?? null
+    const budgetErrors = useMemo(() => (budget ? validateBudget(budget, rowCount) : {}), [budget, rowCount])
+    const hasErrors = [errors, conditionErrors, constraintErrors, budgetErrors].some((e) => Object.keys(e).length > 0)
+    // Rows the run keeps out of training for the privacy evaluation, when it's on
+    const heldOut = model.type === "tabular" ? holdoutCount(rowCount) : 0
+    const holdout = localParams.holdout !== false
+
+    const update = (key: ParameterKey, value: number) => {
+        const newParams = { ...localParams, [key]: value }
+        setLocalParams(newParams)
+        onParametersChange(newParams)
+    }
 
-    const handleSliderChange = (key: keyof GenerationParameters, value: number[]) => {
-        const newParams = { ...localParams, [key]: value[0] }
+    const updateConditions = (next: GenerationCondition[]) => {
+        const newParams = { ...localParams, conditions: next }
         setLocalParams(newParams)
         onParametersChange(newParams)
     }
 
-    const handleSamplesChange = (value: string) => {
-        const samples = Number.parseInt(value) || 0
-        const newParams = { ...localParams, samples }
+    const updateConstraints = (next: Constraint[]) => {
+        const newParams = { ...localParams, constraints: next }
         setLocalParams(newParams)
         onParametersChange(newParams)
     }
 
+    const updateBudget = (next: PrivacyBudget | null) => {
+        const newParams = { ...localParams, privacyBudget: next }
+        setLocalParams(newParams)
+        onParametersChange(newParams)
+    }
+
+    const toggleHoldout = () => {
+        const newParams = { ...localParams, holdout: !holdout }
+        setLocalParams(newParams)
+        onParametersChange(newParams)
+    }
+
+    const handleIntegerChange = (field: ParameterField, text: string) => {
+        setDrafts((prev) => ({ ...prev, [field.key]: text }))
+        const n = Number(text)
+        if (text.trim() !== "" && Number.isFinite(n)) update(field.key, n)
+    }
+
     const handleContinue = () => {
+        if (hasErrors) return
         onNext(localParams)
     }
 
+    const integerFields = schema.filter((f) => f.type === "integer")
+    const percentFields = schema.filter((f) => f.type === "percent")
+
+    const renderIntegerField = (field: ParameterField) => (
+        <div key={field.key} className="space-y-2">
+            <Label htmlFor={field.key} className="text-xs">
+                {field.label}
+                {field.required && <span className="text-destructive"> *</span>}
+            </Label>
+            <Input
+                id={field.key}
+                type="number"
+                value={drafts[field.key] ?? String(localParams[field.key])}
+                onChange={(e) => handleIntegerChange(field, e.target.value)}
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                disabled={field.disabled}
+                aria-invalid={errors[field.key] ? true : undefined}
+                className="h-8 text-sm"
+            />
+            {errors[field.key] ? (
+                <p className="text-xs text-destructive">{errors[field.key]}</p>
+            ) : (
+                <p className="text-xs text-muted-foreground">
+                    {formatCount(field.min)} - {formatCount(field.max)}
+                    {field.help && ` · ${field.help}`}
+                </p>
+            )}
+        </div>
+    )
+
+    const renderPercentField = (field: ParameterField) => (
+        <div key={field.key} className={`space-y-2 ${field.disabled ? "opacity-60" : ""}`}>
+            <div className="flex justify-between">
+                <Label className="text-xs">
+                    {field.label}
+                    {field.required && <span className="text-destructive"> *</span>}
+                </Label>
+                <span className="text-xs text-muted-foreground">
+                    {field.disabled ? "Off" : `${localParams[field.key]}%`}
+                </span>
+            </div>
+            <Slider
+                value={[localParams[field.key]]}
+                onValueChange={(value) => update(field.key, value[0])}
+                max={field.max}
+                min={field.min}
+                step={field.step}
+                disabled={field.disabled}
+                className="w-full"
+            />
+            {errors[field.key] ? (
+                <p className="text-xs text-destructive">{errors[field.key]}</p>
+            ) : (
+                field.help && <p className="text-xs text-muted-foreground">{field.help}</p>
+            )}
+        </div>
+    )
+
     return (
         <div className="space-y-6">
             <div className="flex items-center justify-between">
@@ -52,78 +194,67 @@ export function ParameterControls({ model, parameters, onParametersChange, onNex
             <Card>
                 <CardContent className="p-4 space-y-4">
                     <div className="grid grid-cols-2 gap-4">
-                        <div className="space-y-2">
-                            <Label htmlFor="samples" className="text-xs">
-                                Samples
-                            </Label>
-                            <Input
-                                id="samples"
-                                type="number"
-                                value={localParams.samples}
-                                onChange={(e) => handleSamplesChange(e.target.value)}
-                                min={100}
-                                max={100000}
-                                step={100}
-                                className="h-8 text-sm"
-                            />
-                        </div>
-                        <div className="space-y-2">
-                            <Label className="text-xs">
-                                Est. Time: ~{Math.max(30, Math.round(30 * Math.log10(localParams.samples / 100)))}s
-                            </Label>
-                            <div className="h-8 flex items-center text-xs text-muted-foreground">100 - 100K samples</div>
-                        </div>
+                        {integerFields.map(renderIntegerField)}
+                        {integerFields.some((f) => f.key === "samples") && (
+                            <div className="space-y-2">
+                                <Label className="text-xs">
+                                    Est. Time: ~{Math.max(30, Math.round(30 * Math.log10(Math.max(1, localParams.samples) / 100)))}s
+                                </Label>
+                            </div>
+                        )}
                     </div>
 
-                    <div className="grid grid-cols-3 gap-4">
-                        <div className="space-y-2">
-                            <div className="flex justify-between">
-                                <Label className="text-xs">Privacy</Label>
-                                <span className="text-xs text-muted-foreground">{localParams.privacy}%</span>
-                            </div>
-                            <Slider
-                                value={[localParams.privacy]}
-                                onValueChange={(value) => handleSliderChange("privacy", value)}
-                                max={100}
-                                min={0}
-                                step={5}
-                                className="w-full"
-                            />
-                        </div>
-                        <div className="space-y-2">
-                            <div className="flex justify-between">
-                                <Label className="text-xs">Quality</Label>
-                                <span className="text-xs text-muted-foreground">{localParams.quality}%</span>
-                            </div>
-                            <Slider
-                                value={[localParams.quality]}
-                                onValueChange={(value) => handleSliderChange("quality", value)}
-                                max={100}
-                                min={25}
-                                step={5}
-                                className="w-full"
-                            />
-                        </div>
-                        <div className="space-y-2">
-                            <div className="flex justify-between">
-                                <Label className="text-xs">Diversity</Label>
-                                <span className="text-xs text-muted-foreground">{localParams.diversity}%</span>
+                    <div className="grid grid-cols-3 gap-4">{percentFields.map(renderPercentField)}</div>
+
+                    {heldOut > 0 && (
+                        <div className="flex items-start justify-between gap-4 border-t pt-4">
+                            <div className="space-y-1">
+                                <Label className="text-xs">{PARAMETER_LABELS.holdout_rows}</Label>
+                                <p className="text-xs text-muted-foreground">
+                                    {holdout
+                                        ? `Trains on ${(rowCount - heldOut).toLocaleString()} of ${rowCount.toLocaleString()} rows. The ${heldOut.toLocaleString()} held-out rows let the privacy check compare against records the model never saw.`
+                                        : "Trains on every row. The privacy check compares against other training rows and has no membership attack score."}
+                                </p>
                             </div>
-                            <Slider
-                                value={[localParams.diversity]}
-                                onValueChange={(value) => handleSliderChange("diversity", value)}
-                                max={100}
-                                min={0}
-                                step={5}
-                                className="w-full"
-                            />
+                            <Button variant={holdout ? "default" : "outline"} size="sm" onClick={toggleHoldout}>
+                                {holdout ? "On" : "Off"}
+                            </Button>
                         </div>
-                    </div>
+                    )}
                 </CardContent>
             </Card>
 
+            {model.privacySupport !== "none" && (
+                <PrivacyBudgetControls
+                    support={model.privacySupport}
+                    budget={budget}
+                    rowCount={rowCount}
+                    onChange={updateBudget}
+                    errors={budgetErrors}
+                />
+            )}
+
+            {model.type === "tabular" && (
+                <>
+                    <ConditionsEditor
+                        file={file}
+                        schema={columnSchema}
+                        conditions={conditions}
+                        onChange={updateConditions}
+                        errors={conditionErrors}
+                    />
+                    <ConstraintsEditor
+                        file={file}
+                        schema={columnSchema}
+                        constraints={constraints}
+                        onChange={updateConstraints}
+                        errors={constraintErrors}
+                    />
+                </>
+            )}
+
             <div className="flex justify-end">
-                <Button onClick={handleContinue} className="px-6">
+                <Button onClick={handleContinue} disabled={hasErrors} className="px-6">
                     <Zap className="w-4 h-4 mr-2" />
                     Generate
                 </Button>
@@ -0,0 +1,144 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Lock } from "lucide-react"
+import type { PrivacySupport } from "@/lib/api-client"
+import {
+    BUDGET_EXPLANATION,
+    BUDGET_PRESETS,
+    EPSILON_RANGE,
+    type BudgetErrors,
+    type PrivacyBudget,
+    budgetWarning,
+    formatDelta,
+    resolveBudget,
+    suggestedDelta,
+} from "@/lib/privacy-budget"
+
+interface PrivacyBudgetControlsProps {
+    support: Exclude<PrivacySupport, "none">
+    // null when DP is turned off (optional models only)
+    budget: PrivacyBudget | null
+    // Source rows, for the suggested delta
+    rowCount: number
+    onChange: (budget: PrivacyBudget | null) => void
+    errors: BudgetErrors
+}
+
+export function PrivacyBudgetControls({ support, budget, rowCount, onChange, errors }: PrivacyBudgetControlsProps) {
+    // Raw input text, so an empty or half-typed value can be edited and flagged
+    const [drafts, setDrafts] = useState<Partial<Record<keyof PrivacyBudget, string>>>({})
+
+    const handleInput = (key: keyof PrivacyBudget, text: string) => {
+        if (!budget) return
+        setDrafts((prev) => ({ ...prev, [key]: text }))
+        onChange({ ...budget, [key]: text.trim() === "" ? NaN : Number(text) })
+    }
+
+    const applyPreset = (epsilon: number) => {
+        setDrafts({})
+        onChange({ epsilon, delta: budget && Number.isFinite(budget.delta) ? budget.delta : suggestedDelta(rowCount) })
+    }
+
+    const toggle = () => {
+        setDrafts({})
+        onChange(budget ? null : resolveBudget(support, undefined, rowCount))
+    }
+
+    const warning = budget && !errors.epsilon ? budgetWarning(budget) : null
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1.5">
+                        <CardTitle className="flex items-center gap-2 text-base">
+                            <Lock className="w-4 h-4" />
+                            Differential Privacy
+                        </CardTitle>
+                        <CardDescription>
+                            {support === "required"
+                                ? "Always on for this model. Training stays within the budget below."
+                                : "Optional. Trains with noise calibrated to the budget below."}
+                        </CardDescription>
+                    </div>
+                    {support === "optional" && (
+                        <Button variant={budget ? "default" : "outline"} size="sm" onClick={toggle}>
+                            {budget ? "On" : "Off"}
+                        </Button>
+                    )}
+                </div>
+            </CardHeader>
+            {budget && (
+                <CardContent className="space-y-4">
+                    <div className="flex flex-wrap gap-2">
+                        {BUDGET_PRESETS.map((preset) => (
+                            <Button
+                                key={preset.label}
+                                variant={budget.epsilon === preset.epsilon ? "secondary" : "outline"}
+                                size="sm"
+                                className="h-7 px-2 text-xs"
+                                title={preset.description}
+                                onClick={() => applyPreset(preset.epsilon)}
+                            >
+                                {preset.label} · ε {preset.epsilon}
+                            </Button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="dp-epsilon" className="text-xs">
+                                Epsilon (ε)<span className="text-destructive"> *</span>
+                            </Label>
+                            <Input
+                                id="dp-epsilon"
+                                type="number"
+                                value={drafts.epsilon ?? String(budget.epsilon)}
+                                onChange={(e) => handleInput("epsilon", e.target.value)}
+                                min={EPSILON_RANGE[0]}
+                                max={EPSILON_RANGE[1]}
+                                step={0.1}
+                                aria-invalid={errors.epsilon ? true : undefined}
+                                className="h-8 text-sm"
+                            />
+                            {errors.epsilon ? (
+                                <p className="text-xs text-destructive">{errors.epsilon}</p>
+                            ) : (
+                                <p className={`text-xs ${warning ? "text-amber-600" : "text-muted-foreground"}`}>
+                                    {warning ?? `${EPSILON_RANGE[0]} - ${EPSILON_RANGE[1]} · lower is more private`}
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="dp-delta" className="text-xs">
+                                Delta (δ)<span className="text-destructive"> *</span>
+                            </Label>
+                            <Input
+                                id="dp-delta"
+                                value={drafts.delta ?? formatDelta(budget.delta)}
+                                onChange={(e) => handleInput("delta", e.target.value)}
+                                inputMode="decimal"
+                                aria-invalid={errors.delta ? true : undefined}
+                                className="h-8 text-sm"
+                            />
+                            {errors.delta ? (
+                                <p className="text-xs text-destructive">{errors.delta}</p>
+                            ) : (
+                                <p className="text-xs text-muted-foreground">
+                                    Suggested {formatDelta(suggestedDelta(rowCount))} for {rowCount.toLocaleString()} rows
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    <p className="text-xs text-muted-foreground">{BUDGET_EXPLANATION}</p>
+                </CardContent>
+            )}
+        </Card>
+    )
+}
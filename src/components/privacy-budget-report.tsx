@@ -0,0 +1,54 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { BUDGET_EXPLANATION, type PrivacyBudget, formatDelta, formatEpsilon } from "@/lib/privacy-budget"
+
+interface PrivacyBudgetReportProps {
+    // What the run asked for
+    target: PrivacyBudget
+    // What the backend's accountant reports training spent; missing when it didn't say
+    spent?: PrivacyBudget
+}
+
+export function getBudgetStatus(target: PrivacyBudget, spent?: PrivacyBudget) {
+    if (!spent) return { label: "Not reported", variant: "outline" as const }
+    // The accountant rounds, so allow for it before calling the budget exceeded
+    const over = spent.epsilon > target.epsilon * 1.001 || spent.delta > target.delta * 1.001
+    return over ? { label: "Over budget", variant: "destructive" as const } : { label: "Within budget", variant: "secondary" as const }
+}
+
+function Stat({ label, value, detail }: { label: string; value: string; detail: string }) {
+    return (
+        <div className="p-4 rounded-lg bg-muted/30">
+            <div className="text-xs text-muted-foreground">{label}</div>
+            <div className="text-lg font-semibold tabular-nums">{value}</div>
+            <div className="text-xs text-muted-foreground">{detail}</div>
+        </div>
+    )
+}
+
+// Target against spent budget, as stored with the job
+export function PrivacyBudgetReport({ target, spent }: PrivacyBudgetReportProps) {
+    const status = getBudgetStatus(target, spent)
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">Privacy budget</span>
+                <Badge variant={status.variant}>{status.label}</Badge>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                <Stat label="ε spent" value={spent ? formatEpsilon(spent.epsilon) : "—"} detail={`Target ${formatEpsilon(target.epsilon)}`} />
+                <Stat label="δ spent" value={spent ? formatDelta(spent.delta) : "—"} detail={`Target ${formatDelta(target.delta)}`} />
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+                {spent
+                    ? "Spent as reported by the backend's privacy accountant after training. Generating rows from the trained model doesn't spend any more."
+                    : "The backend didn't report what training spent, so only the target is known."}{" "}
+                {BUDGET_EXPLANATION}
+            </p>
+        </div>
+    )
+}
@@ -0,0 +1,164 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, CopyX, ShieldCheck } from "lucide-react"
+import type { PrivacyReport, PrivacyRisk } from "@/lib/privacy-metrics"
+
+interface PrivacyDiagnosticsProps {
+    report: PrivacyReport
+    // Whether downloads leave out exact copies of source rows
+    dropCopies: boolean
+    onDropCopiesChange: (dropCopies: boolean) => void
+    // Copies were counted on a sample of the rows only; the download checks every row
+    partial: boolean
+}
+
+export function getRiskVariant(risk: PrivacyRisk) {
+    switch (risk) {
+        case "Low":
+            return "secondary" as const
+        case "Medium":
+            return "outline" as const
+        default:
+            return "destructive" as const
+    }
+}
+
+const formatShare = (value: number) => `${(value * 100).toFixed(1)}%`
+
+function Stat({ label, value, detail }: { label: string; value: string; detail: string }) {
+    return (
+        <div className="p-4 rounded-lg bg-muted/30">
+            <div className="text-xs text-muted-foreground">{label}</div>
+            <div className="text-lg font-semibold tabular-nums">{value}</div>
+            <div className="text-xs text-muted-foreground">{detail}</div>
+        </div>
+    )
+}
+
+function DistanceHistogram({ report }: { report: PrivacyReport }) {
+    const bins = report.histogram
+    const peak = Math.max(0.0001, ...bins.map((b) => Math.max(b.source, b.synthetic)))
+    if (!bins.length) return <div className="text-sm text-muted-foreground">No distances to plot.</div>
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 rounded-sm bg-primary/50" />
+                    {report.baseline === "holdout" ? "Held-out real rows" : "Other real rows"}
+                </div>
+                <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 rounded-sm bg-secondary/70" />
+                    Synthetic
+                </div>
+            </div>
+            <div className="flex items-end gap-0.5 h-40 border-b border-l border-border px-1">
+                {bins.map((bin, i) => (
+                    <div
+                        key={i}
+                        className="relative flex-1 h-full"
+                        title={`${bin.start.toFixed(3)} – ${bin.end.toFixed(3)}\nReal: ${formatShare(bin.source)}\nSynthetic: ${formatShare(bin.synthetic)}`}
+                    >
+                        <div
+                            className="absolute bottom-0 inset-x-0 bg-primary/50 rounded-t-sm"
+                            style={{ height: `${(bin.source / peak) * 100}%` }}
+                        />
+                        <div
+                            className="absolute bottom-0 inset-x-1 bg-secondary/70 rounded-t-sm"
+                            style={{ height: `${(bin.synthetic / peak) * 100}%` }}
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{bins[0].start.toFixed(3)}</span>
+                <span>Distance to closest training row</span>
+                <span>{bins[bins.length - 1].end.toFixed(3)}</span>
+            </div>
+        </div>
+    )
+}
+
+// Copies, distance to closest record and the membership attack, with the option to drop copies from downloads
+export function PrivacyDiagnostics({ report, dropCopies, onDropCopiesChange, partial }: PrivacyDiagnosticsProps) {
+    const realRows = report.baseline === "holdout" ? "held-out real rows" : "other real rows"
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">Privacy risk</span>
+                <Badge variant={getRiskVariant(report.risk)}>{report.risk}</Badge>
+            </div>
+
+            {report.findings.length > 0 ? (
+                <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                        <ul className="list-disc pl-4 space-y-1">
+                            {report.findings.map((f) => (
+                                <li key={f}>{f}</li>
+                            ))}
+                        </ul>
+                    </AlertDescription>
+                </Alert>
+            ) : (
+                <Alert>
+                    <ShieldCheck className="h-4 w-4" />
+                    <AlertDescription>
+                        The output is no closer to the training rows than {realRows} are to each other.
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Stat
+                    label="Exact copies"
+                    value={report.exactCopies.toLocaleString()}
+                    detail={`${formatShare(report.exactCopies / Math.max(1, report.checkedRows))} of ${report.checkedRows.toLocaleString()} rows`}
+                />
+                <Stat
+                    label="Near copies"
+                    value={formatShare(report.nearCopies / Math.max(1, report.sampledRows))}
+                    detail={`${formatShare(report.baselineNearCopyShare)} for ${realRows}`}
+                />
+                <Stat
+                    label="Median distance to closest record"
+                    value={report.syntheticDcr.median.toFixed(3)}
+                    detail={`${report.baselineDcr.median.toFixed(3)} for ${realRows}`}
+                />
+                <Stat
+                    label="Membership inference AUC"
+                    value={report.membershipAuc === null ? "—" : report.membershipAuc.toFixed(2)}
+                    detail={report.membershipAuc === null ? "Needs rows held out of training" : "0.50 means the attack is guessing"}
+                />
+            </div>
+
+            <DistanceHistogram report={report} />
+
+            <p className="text-xs text-muted-foreground">
+                Distances are Gower distances (0–1) over the compared columns, on a sample of{" "}
+                {report.sampledRows.toLocaleString()} rows.{" "}
+                {report.baseline === "holdout"
+                    ? "The baseline is real rows held out of training: synthetic rows should sit about as far from the training rows as they do. The attack tries to tell training rows from held-out rows by how close the output comes to them."
+                    : "Nothing was held out of training, so the baseline is each real row's distance to the others and the membership attack is skipped."}
+            </p>
+
+            <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border p-3">
+                <div className="text-sm">
+                    <div className="font-medium">Drop exact copies before download</div>
+                    <div className="text-xs text-muted-foreground">
+                        Leaves out synthetic rows identical to a source row
+                        {partial && "; checked on every generated row, not just the ones measured here"}
+                    </div>
+                </div>
+                <Button variant={dropCopies ? "default" : "outline"} size="sm" onClick={() => onDropCopiesChange(!dropCopies)}>
+                    <CopyX className="w-4 h-4 mr-2" />
+                    {dropCopies ? "Dropping copies" : "Drop copies"}
+                </Button>
+            </div>
+        </div>
+    )
+}
@@ -1,99 +1,183 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 "use client"
 
-import { useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Download, RotateCcw, CheckCircle, BarChart3, Shield, FileText, Eye } from "lucide-react"
+import { RotateCcw, CheckCircle, BarChart3, Shield, FileText, Eye, AlertTriangle, Grid3x3, SlidersHorizontal, ScanSearch, ShieldCheck, Filter, Scale, Lock } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import type { GeneratedData } from "./synthetic-data-platform"
+import { collectColumns, parseTable } from "@/lib/tabular"
+import { computeQualityReport, type QualityRating, type QualityReport } from "@/lib/quality-metrics"
+import { ColumnDistributionChart } from "./column-distribution-chart"
+import { CorrelationHeatmap } from "./correlation-heatmap"
+import { ProfileComparison } from "./dataset-profile"
+import { DataGrid } from "./data-grid"
+import { PARAMETER_LABELS } from "@/lib/hyperparameters"
+import { type ExportFormat, downloadJobResults, downloadRows } from "@/lib/export"
+import { createResultPages } from "@/lib/result-pages"
+import { type ColumnSchema, inferSchema } from "@/lib/schema"
+import { type DatasetProfile, profileTable } from "@/lib/profile"
+import { PII_LABELS, policyLabel, toPolicyPayload, withoutTreatedColumns } from "@/lib/pii"
+import { checkConditions } from "@/lib/conditions"
+import { checkConstraints, dateColumns } from "@/lib/constraints"
+import { ConstraintReport } from "./constraint-report"
+import { computePrivacyReport, copyColumns, trainedHoldout, withoutExactCopies } from "@/lib/privacy-metrics"
+import { PrivacyDiagnostics, getRiskVariant } from "./privacy-diagnostics"
+import { PrivacyBudgetReport, getBudgetStatus } from "./privacy-budget-report"
+import { budgetMetadata, formatEpsilon, requestedBudget } from "@/lib/privacy-budget"
+import { ExportMenu } from "./export-menu"
+import type { GeneratedData, UploadedFile } from "./synthetic-data-platform"
 
 interface ResultsDisplayProps {
-    generatedData: {
-        job_id: string
-        synthetic_data: Array<Record<string, any>>
-    }
+    generatedData: GeneratedData
+    uploadedFile: UploadedFile | null
+    // Confirmed source schema; typed export formats take their column types from it
+    schema?: ColumnSchema[] | null
+    // Source profile from the Analyze step; recomputed from the uploaded file when missing
+    profile?: DatasetProfile | null
     onReset: () => void
+    // Receives the computed report, e.g. to store its scores in the job history
+    onReport?: (report: QualityReport) => void
+}
+
+function getRatingVariant(rating: QualityRating) {
+    switch (rating) {
+        case "Excellent":
+        case "Good":
+            return "secondary" as const
+        case "Fair":
+            return "outline" as const
+        default:
+            return "destructive" as const
+    }
+}
+
+function getQualitySummary(rating: QualityRating) {
+    switch (rating) {
+        case "Excellent":
+            return "Your synthetic data meets high quality standards with strong statistical fidelity to the original dataset."
+        case "Good":
+            return "Your synthetic data follows the original dataset well. Review the lower-scoring columns before sharing it."
+        case "Fair":
+            return "Your synthetic data only partially matches the original dataset. Consider raising quality or retraining before use."
+        default:
+            return "This run diverges significantly from the original dataset. It is not recommended for use without retraining."
+    }
 }
 
-export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps) {
+export function ResultsDisplay({ generatedData, uploadedFile, schema, profile, onReset, onReport }: ResultsDisplayProps) {
     const [activeTab, setActiveTab] = useState("overview")
 
+    // Compare the generated rows against the uploaded source
+    const sourceTable = useMemo(
+        () => (uploadedFile ? parseTable(uploadedFile.content, uploadedFile.name) : { columns: [], rows: [] }),
+        [uploadedFile],
+    )
+    const sourceRows = useMemo(() => withoutTreatedColumns(sourceTable.rows, schema), [sourceTable, schema])
+    // For paged results this is a sample of the rows; the preview pages through all of them
+    const syntheticRows = useMemo(() => generatedData.synthetic_data ?? [], [generatedData])
+    const baselineProfile = useMemo(() => profile ?? profileTable(sourceTable), [profile, sourceTable])
+    // Profiled with the baseline's column types so both sides are summarized the same way
+    const syntheticProfile = useMemo(
+        () => profileTable({ columns: collectColumns(syntheticRows), rows: syntheticRows }, baselineProfile.columns),
+        [syntheticRows, baselineProfile],
+    )
+    const totalRows = generatedData.total_rows ?? syntheticRows.length
+    // Every check on this page runs on `syntheticRows`, so each one says when that isn't the whole output
+    const sampled = syntheticRows.length < totalRows
+    const sampleDescription = `a sample of ${syntheticRows.length.toLocaleString()} of ${totalRows.toLocaleString()} rows`
+    const pages = useMemo(
+        () => (generatedData.paged ? createResultPages(generatedData.job_id, generatedData.total_rows ?? 0) : null),
+        [generatedData],
+    )
+    const [downloadError, setDownloadError] = useState<string | null>(null)
+    const [downloading, setDownloading] = useState(false)
+    // Normally computed during the validation step; history and failed validations recompute it here
+    const report = useMemo(
+        () => generatedData.quality_report ?? computeQualityReport(sourceRows, syntheticRows),
+        [generatedData, sourceRows, syntheticRows],
+    )
+    // Same columns the backend compares when it drops copies from a download
+    const privacyColumns = useMemo(() => {
+        const columns = schema ?? inferSchema(sourceTable)
+        return copyColumns(columns, toPolicyPayload(columns).map((p) => p.name))
+    }, [schema, sourceTable])
+    const privacyReport = useMemo(
+        () =>
+            generatedData.privacy_report ??
+            computePrivacyReport(
+                sourceRows,
+                syntheticRows,
+                privacyColumns,
+                trainedHoldout(sourceRows.length, uploadedFile?.content ?? "", generatedData.effective_parameters),
+            ),
+        [generatedData, sourceRows, syntheticRows, privacyColumns, uploadedFile],
+    )
+    const [dropCopies, setDropCopies] = useState(false)
+
+    useEffect(() => {
+        onReport?.(report)
+        // Once per computed report; the callback identity changes on every parent render
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [report])
+
     const qualityMetrics = {
-        fidelity: 87,
-        privacy: 92,
-        utility: 84,
-        diversity: 79,
+        fidelity: Math.round(report.quality.fidelity),
+        privacy: Math.round(report.quality.privacy),
+        utility: Math.round(report.quality.utility),
+        diversity: Math.round(report.quality.diversity),
     }
 
     const statisticalMetrics = {
-        correlationPreservation: 91,
-        distributionSimilarity: 88,
-        outlierDetection: 76,
-        featureImportance: 93,
+        correlationPreservation: Math.round(report.statistics.correlationPreservation),
+        distributionSimilarity: Math.round(report.statistics.distributionSimilarity),
+        categoryCoverage: Math.round(report.statistics.categoryCoverage),
+        rangeCoverage: Math.round(report.statistics.rangeCoverage),
+        rowUniqueness: Math.round(report.statistics.rowUniqueness),
     }
 
-    function jsonToCsv(rows: Array<Record<string, any>>): string {
-        if (!rows.length) return "";
-
-        // Collect a stable header set across all rows
-        const headerSet = new Set<string>();
-        for (const r of rows) Object.keys(r).forEach((k) => headerSet.add(k));
-        const headers = Array.from(headerSet);
-
-        const escapeCell = (val: any): string => {
-            if (val === null || val === undefined) return "";
-            // Keep numbers as-is, stringify objects/arrays, and coerce others to string
-            const raw =
-                typeof val === "object" ? JSON.stringify(val) : String(val);
-
-            // Escape quotes by doubling them, wrap in quotes if needed
-            const withEscapedQuotes = raw.replace(/"/g, '""');
-            const needsQuotes = /[",\n\r]/.test(withEscapedQuotes);
-            return needsQuotes ? `"${withEscapedQuotes}"` : withEscapedQuotes;
-        };
-
-        const headerLine = headers.join(",");
-        const dataLines = rows.map((r) =>
-            headers.map((h) => escapeCell(r[h])).join(",")
-        );
-
-        // Use CRLF for wide compatibility (Excel, etc.)
-        return [headerLine, ...dataLines].join("\r\n");
-    }
+    const isAcceptable = report.rating === "Excellent" || report.rating === "Good"
 
-    const handleDownload = async (format: "csv" | "json") => {
-        if (!generatedData || !Array.isArray(generatedData.synthetic_data) || !generatedData.synthetic_data.length) {
-            throw new Error("No generated data available for download");
-        }
+    const requestedParameters = generatedData.requested_parameters ?? {}
+    const effectiveParameters = generatedData.effective_parameters ?? {}
+    // Target of a DP run; the backend's clamped value when it reports one
+    const dpBudget = requestedBudget(effectiveParameters) ?? requestedBudget(requestedParameters)
+    const parameterKeys = Array.from(new Set([...Object.keys(requestedParameters), ...Object.keys(effectiveParameters)]))
+    const treatments = schema ? toPolicyPayload(schema) : []
+    const conditionChecks = useMemo(
+        () => checkConditions(syntheticRows, generatedData.conditions ?? []),
+        [syntheticRows, generatedData],
+    )
+    const constraintChecks = useMemo(
+        () => checkConstraints(syntheticRows, generatedData.constraints ?? [], dateColumns(schema)),
+        [syntheticRows, generatedData, schema],
+    )
+    const violatedRules = constraintChecks.filter((c) => c.violations > 0).length
 
-        const fileBase = `synthetic_data_${generatedData.job_id}`;
-        let blob: Blob;
-        let filename: string;
-
-        if (format === "csv") {
-            const csv = jsonToCsv(generatedData.synthetic_data);
-            blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
-            filename = `${fileBase}.csv`;
-        } else {
-            // Pretty JSON for readability
-            const json = JSON.stringify(generatedData.synthetic_data, null, 2);
-            blob = new Blob([json], { type: "application/json;charset=utf-8" });
-            filename = `${fileBase}.json`;
+    const handleDownload = async (format: ExportFormat) => {
+        const fileBase = `synthetic_data_${generatedData.job_id}`
+        setDownloadError(null)
+        setDownloading(true)
+        try {
+            if (generatedData.paged) await downloadJobResults(generatedData.job_id, format, fileBase, dropCopies)
+            else {
+                const rows = generatedData.synthetic_data ?? []
+                await downloadRows(
+                    dropCopies ? withoutExactCopies(rows, sourceRows, privacyColumns) : rows,
+                    format,
+                    fileBase,
+                    schema,
+                    budgetMetadata(dpBudget, generatedData.privacy_spent),
+                )
+            }
+        } catch (e) {
+            setDownloadError(e instanceof Error ? e.message : String(e))
+        } finally {
+            setDownloading(false)
         }
+    }
 
-        // Trigger browser download
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        a.remove();
-        URL.revokeObjectURL(url);
-    };
     const formatTimestamp = (date: Date | string | number) => {
         const d = typeof date === "string" || typeof date === "number" ? new Date(date) : date;
         return d.toLocaleString("en-US", {
@@ -122,26 +206,33 @@ export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps)
 
             {/* Quick Actions */}
             <div className="flex flex-wrap gap-4">
-                <Button onClick={() => handleDownload("csv")} className="flex-1 sm:flex-none">
-                    <Download className="w-4 h-4 mr-2" />
-                    Download CSV
-                </Button>
-                <Button variant="outline" onClick={() => handleDownload("json")} className="flex-1 sm:flex-none">
-                    <Download className="w-4 h-4 mr-2" />
-                    Download JSON
-                </Button>
+                <ExportMenu onSelect={handleDownload} busy={downloading} className="flex-1 sm:flex-none" />
                 <Button variant="secondary" onClick={onReset} className="flex-1 sm:flex-none">
                     <RotateCcw className="w-4 h-4 mr-2" />
                     Generate New
                 </Button>
+                {dropCopies && (
+                    <span className="self-center text-xs text-muted-foreground">Downloads leave out exact copies of source rows</span>
+                )}
             </div>
 
+            {downloadError && (
+                <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{downloadError}</AlertDescription>
+                </Alert>
+            )}
+
             {/* Detailed Results */}
             <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-                <TabsList className="grid w-full grid-cols-4">
+                <TabsList className={`grid w-full ${constraintChecks.length ? "grid-cols-8" : "grid-cols-7"}`}>
                     <TabsTrigger value="overview">Overview</TabsTrigger>
                     <TabsTrigger value="quality">Quality</TabsTrigger>
+                    <TabsTrigger value="privacy">Privacy</TabsTrigger>
                     <TabsTrigger value="statistics">Statistics</TabsTrigger>
+                    <TabsTrigger value="correlations">Correlations</TabsTrigger>
+                    <TabsTrigger value="profile">Profile</TabsTrigger>
+                    {constraintChecks.length > 0 && <TabsTrigger value="constraints">Rules</TabsTrigger>}
                     <TabsTrigger value="preview">Preview</TabsTrigger>
                 </TabsList>
 
@@ -160,15 +251,15 @@ export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps)
                                 <CardTitle className="text-sm font-medium text-muted-foreground">Samples Generated</CardTitle>
                             </CardHeader>
                             <CardContent>
-                                <div className="text-2xl font-bold">{"100%"}</div>
+                                <div className="text-2xl font-bold">{totalRows.toLocaleString()}</div>
                             </CardContent>
                         </Card>
                         <Card>
                             <CardHeader className="pb-3">
-                                <CardTitle className="text-sm font-medium text-muted-foreground">File Size</CardTitle>
+                                <CardTitle className="text-sm font-medium text-muted-foreground">Columns</CardTitle>
                             </CardHeader>
                             <CardContent>
-                                <div className="text-2xl font-bold">{"100 KB"}</div>
+                                <div className="text-2xl font-bold">{syntheticProfile.columns.length}</div>
                             </CardContent>
                         </Card>
                         <Card>
@@ -176,7 +267,7 @@ export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps)
                                 <CardTitle className="text-sm font-medium text-muted-foreground">Generated</CardTitle>
                             </CardHeader>
                             <CardContent>
-                                <div className="text-lg font-bold">{formatTimestamp(Date.now())}</div>
+                                <div className="text-lg font-bold">{generatedData.generated_at ? formatTimestamp(generatedData.generated_at) : "—"}</div>
                             </CardContent>
                         </Card>
                     </div>
@@ -187,6 +278,7 @@ export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps)
                                 <FileText className="w-5 h-5" />
                                 Generation Summary
                             </CardTitle>
+                            {sampled && <CardDescription>Scores measured on {sampleDescription}</CardDescription>}
                         </CardHeader>
                         <CardContent className="space-y-4">
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -200,9 +292,19 @@ export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps)
                                         <span className="font-medium">{qualityMetrics.fidelity}%</span>
                                     </div>
                                     <div className="flex justify-between">
-                                        <span className="text-muted-foreground">Privacy Score:</span>
-                                        <span className="font-medium">{qualityMetrics.privacy}%</span>
+                                        <span className="text-muted-foreground">Privacy Risk:</span>
+                                        <Badge variant={getRiskVariant(privacyReport.risk)}>{privacyReport.risk}</Badge>
                                     </div>
+                                    {dpBudget && (
+                                        <div className="flex justify-between">
+                                            <span className="text-muted-foreground">DP Budget Spent:</span>
+                                            <span className="font-medium tabular-nums">
+                                                {generatedData.privacy_spent
+                                                    ? `ε ${formatEpsilon(generatedData.privacy_spent.epsilon)} of ${formatEpsilon(dpBudget.epsilon)}`
+                                                    : getBudgetStatus(dpBudget).label}
+                                            </span>
+                                        </div>
+                                    )}
                                 </div>
                                 <div className="space-y-3">
                                     <div className="flex justify-between">
@@ -215,12 +317,148 @@ export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps)
                                     </div>
                                     <div className="flex justify-between">
                                         <span className="text-muted-foreground">Overall Rating:</span>
-                                        <Badge variant="secondary">Excellent</Badge>
+                                        <Badge variant={getRatingVariant(report.rating)}>
+                                            {report.rating} ({Math.round(report.overall)}%)
+                                        </Badge>
                                     </div>
                                 </div>
                             </div>
                         </CardContent>
                     </Card>
+
+                    {parameterKeys.length > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <SlidersHorizontal className="w-5 h-5" />
+                                    Model Parameters
+                                </CardTitle>
+                                <CardDescription>What the configuration asked for and what the backend actually applied</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-xs text-muted-foreground">
+                                            <th className="text-left py-2 font-medium">Parameter</th>
+                                            <th className="text-right py-2 font-medium">Requested</th>
+                                            <th className="text-right py-2 font-medium">Effective</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {parameterKeys.map((key) => {
+                                            const requested = requestedParameters[key]
+                                            const effective = effectiveParameters[key]
+                                            const changed = requested !== undefined && effective !== undefined && requested !== effective
+                                            return (
+                                                <tr key={key} className="border-b last:border-0">
+                                                    <td className="py-2">{PARAMETER_LABELS[key] ?? key}</td>
+                                                    <td className="py-2 text-right tabular-nums text-muted-foreground">
+                                                        {requested === undefined ? "—" : String(requested)}
+                                                    </td>
+                                                    <td className={`py-2 text-right tabular-nums font-medium ${changed ? "text-amber-600" : ""}`}>
+                                                        {effective === undefined ? "not reported" : String(effective)}
+                                                    </td>
+                                                </tr>
+                                            )
+                                        })}
+                                    </tbody>
+                                </table>
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {treatments.length > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <ShieldCheck className="w-5 h-5" />
+                                    Privacy Treatments
+                                </CardTitle>
+                                <CardDescription>Applied to these columns before training</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-xs text-muted-foreground">
+                                            <th className="text-left py-2 font-medium">Column</th>
+                                            <th className="text-left py-2 font-medium">Detected</th>
+                                            <th className="text-right py-2 font-medium">Treatment</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {treatments.map(({ name, action }) => {
+                                            const pii = schema?.find((c) => c.name === name)?.pii
+                                            return (
+                                                <tr key={name} className="border-b last:border-0">
+                                                    <td className="py-2">{name}</td>
+                                                    <td className="py-2 text-muted-foreground">{pii ? PII_LABELS[pii.kind] : "—"}</td>
+                                                    <td className="py-2 text-right font-medium">{policyLabel(action)}</td>
+                                                </tr>
+                                            )
+                                        })}
+                                    </tbody>
+                                </table>
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {conditionChecks.length > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Filter className="w-5 h-5" />
+                                    Conditions
+                                </CardTitle>
+                                <CardDescription>
+                                    Requested values against the generated output
+                                    {sampled && ` (checked on ${sampleDescription})`}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                {conditionChecks.map((check) => (
+                                    <div key={check.condition.column} className="space-y-2">
+                                        <div className="flex items-center justify-between">
+                                            <span className="font-medium text-sm">{check.condition.column}</span>
+                                            <Badge variant={check.honored ? "default" : "destructive"}>
+                                                {check.honored ? "Honored" : "Not honored"}
+                                            </Badge>
+                                        </div>
+                                        <table className="w-full text-sm">
+                                            <thead>
+                                                <tr className="border-b text-xs text-muted-foreground">
+                                                    <th className="text-left py-2 font-medium">Value</th>
+                                                    <th className="text-right py-2 font-medium">Target</th>
+                                                    <th className="text-right py-2 font-medium">Actual</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {check.targets.map((t) => (
+                                                    <tr key={t.value} className="border-b last:border-0">
+                                                        <td className="py-2">{t.value}</td>
+                                                        <td className="py-2 text-right tabular-nums">{(t.target * 100).toFixed(1)}%</td>
+                                                        <td
+                                                            className={`py-2 text-right tabular-nums ${t.honored ? "" : "text-destructive font-medium"}`}
+                                                        >
+                                                            {(t.actual * 100).toFixed(1)}%
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                                {check.other > 0 && (
+                                                    <tr className="text-muted-foreground">
+                                                        <td className="py-2">Other values</td>
+                                                        <td className="py-2 text-right tabular-nums">0.0%</td>
+                                                        <td className="py-2 text-right tabular-nums text-destructive">
+                                                            {(check.other * 100).toFixed(1)}%
+                                                        </td>
+                                                    </tr>
+                                                )}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                ))}
+                            </CardContent>
+                        </Card>
+                    )}
                 </TabsContent>
 
                 <TabsContent value="quality" className="space-y-6">
@@ -230,7 +468,10 @@ export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps)
                                 <Shield className="w-5 h-5" />
                                 Quality Assessment
                             </CardTitle>
-                            <CardDescription>Comprehensive analysis of your synthetic data quality</CardDescription>
+                            <CardDescription>
+                                Comprehensive analysis of your synthetic data quality
+                                {sampled && ` (measured on ${sampleDescription})`}
+                            </CardDescription>
                         </CardHeader>
                         <CardContent className="space-y-6">
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -246,12 +487,15 @@ export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps)
                                     </div>
                                     <div>
                                         <div className="flex justify-between mb-2">
-                                            <span className="text-sm font-medium">Privacy Protection</span>
-                                            <span className="text-sm text-muted-foreground">{qualityMetrics.privacy}%</span>
-                                        </div>
-                                        <div className="w-full bg-muted rounded-full h-2">
-                                            <div className="bg-green-500 h-2 rounded-full" style={{ width: `${qualityMetrics.privacy}%` }} />
+                                            <span className="text-sm font-medium">Privacy Risk</span>
+                                            <Badge variant={getRiskVariant(privacyReport.risk)}>{privacyReport.risk}</Badge>
                                         </div>
+                                        <p className="text-xs text-muted-foreground">
+                                            {privacyReport.exactCopies.toLocaleString()} exact copies
+                                            {privacyReport.membershipAuc !== null &&
+                                                `, membership inference AUC ${privacyReport.membershipAuc.toFixed(2)}`}
+                                            . Details in the Privacy tab.
+                                        </p>
                                     </div>
                                 </div>
                                 <div className="space-y-4">
@@ -279,13 +523,68 @@ export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps)
                                 </div>
                             </div>
 
-                            <Alert>
-                                <CheckCircle className="h-4 w-4" />
-                                <AlertDescription>
-                                    Your synthetic data meets high quality standards with excellent privacy protection and strong
-                                    statistical fidelity to the original dataset.
-                                </AlertDescription>
+                            <Alert variant={report.rating === "Poor" ? "destructive" : "default"}>
+                                {isAcceptable ? <CheckCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                                <AlertDescription>{getQualitySummary(report.rating)}</AlertDescription>
                             </Alert>
+
+                            <div className="space-y-2">
+                                <div className="text-sm font-medium">Per-Column Similarity</div>
+                                <div className="rounded-lg border divide-y">
+                                    {report.columns.map((col) => (
+                                        <div key={col.column} className="flex items-center gap-3 p-2 text-sm">
+                                            <span className="flex-1 min-w-0 truncate" title={col.column}>{col.column}</span>
+                                            <Badge variant="outline" className="text-xs">
+                                                {col.test === "ks" ? "KS" : "TVD"} {col.statistic.toFixed(3)}
+                                            </Badge>
+                                            <div className="w-32 bg-muted rounded-full h-2">
+                                                <div className="bg-secondary h-2 rounded-full" style={{ width: `${col.similarity}%` }} />
+                                            </div>
+                                            <span className="w-10 text-right text-muted-foreground">{Math.round(col.similarity)}%</span>
+                                        </div>
+                                    ))}
+                                    {report.columns.length === 0 && (
+                                        <div className="p-2 text-sm text-muted-foreground">No shared columns to compare.</div>
+                                    )}
+                                </div>
+                            </div>
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value="privacy" className="space-y-6">
+                    {dpBudget && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <ShieldCheck className="w-5 h-5" />
+                                    Differential Privacy
+                                </CardTitle>
+                                <CardDescription>The budget training was given and what it spent</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <PrivacyBudgetReport target={dpBudget} spent={generatedData.privacy_spent} />
+                            </CardContent>
+                        </Card>
+                    )}
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Lock className="w-5 h-5" />
+                                Privacy Evaluation
+                            </CardTitle>
+                            <CardDescription>
+                                How close the output comes to real records
+                                {sampled && ` (measured on ${sampleDescription})`}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <PrivacyDiagnostics
+                                report={privacyReport}
+                                dropCopies={dropCopies}
+                                onDropCopiesChange={setDropCopies}
+                                partial={sampled}
+                            />
                         </CardContent>
                     </Card>
                 </TabsContent>
@@ -315,8 +614,82 @@ export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps)
                             </div>
                         </CardContent>
                     </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <BarChart3 className="w-5 h-5" />
+                                Column Distributions
+                            </CardTitle>
+                            <CardDescription>Original vs synthetic values for each column</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <ColumnDistributionChart source={sourceRows} synthetic={syntheticRows} columns={report.columns} />
+                        </CardContent>
+                    </Card>
                 </TabsContent>
 
+                <TabsContent value="correlations" className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Grid3x3 className="w-5 h-5" />
+                                Correlation Comparison
+                            </CardTitle>
+                            <CardDescription>
+                                Pairwise relationships in the original and synthetic data. Average absolute difference:{" "}
+                                {report.correlations.meanAbsoluteDifference.toFixed(3)} ({statisticalMetrics.correlationPreservation}%
+                                preserved)
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <CorrelationHeatmap comparison={report.correlations} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value="profile" className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <ScanSearch className="w-5 h-5" />
+                                Profile Comparison
+                            </CardTitle>
+                            <CardDescription>
+                                The synthetic output profiled the same way as the uploaded dataset
+                                {sampled && ` (${sampleDescription})`}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <ProfileComparison baseline={baselineProfile} synthetic={syntheticProfile} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                {constraintChecks.length > 0 && (
+                    <TabsContent value="constraints" className="space-y-6">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Scale className="w-5 h-5" />
+                                    Constraint Violations
+                                </CardTitle>
+                                <CardDescription>
+                                    {violatedRules
+                                        ? `${violatedRules} of ${constraintChecks.length} rules broken`
+                                        : `All ${constraintChecks.length} rules hold`}
+                                    {sampled && ` (checked on ${sampleDescription})`}
+                                    {generatedData.rejected_rows !== undefined &&
+                                        `. The backend redrew ${generatedData.rejected_rows.toLocaleString()} candidate rows that broke a rule.`}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <ConstraintReport checks={constraintChecks} rowCount={syntheticRows.length} />
+                            </CardContent>
+                        </Card>
+                    </TabsContent>
+                )}
+
                 <TabsContent value="preview" className="space-y-6">
                     <Card>
                         <CardHeader>
@@ -324,35 +697,11 @@ export function ResultsDisplay({ generatedData, onReset }: ResultsDisplayProps)
                                 <Eye className="w-5 h-5" />
                                 Data Preview
                             </CardTitle>
-                            <CardDescription>Sample of your generated synthetic data</CardDescription>
+                            <CardDescription>Browse, sort and filter the generated rows before downloading</CardDescription>
                         </CardHeader>
-                        {/* <CardContent>
-                            <div className="rounded-lg border bg-muted/50 p-4">
-                                <div className="text-sm text-muted-foreground mb-2">
-                                    Showing first 5 rows of {generatedData.samples.toLocaleString()} generated samples
-                                </div>
-                                <div className="overflow-x-auto">
-                                    <table className="w-full text-sm">
-                                        <thead>
-                                            <tr className="border-b">
-                                                {generatedData.synthetic_data.length > 0 && Object.keys(generatedData.synthetic_data[0]).map((key) => (
-                                                    <th key={key} className="text-left p-2">{key}</th>
-                                                ))}
-                                            </tr>
-                                        </thead>
-                                        <tbody>
-                                            {generatedData.synthetic_data.slice(0, 5).map((row, i) => (
-                                                <tr key={i} className="border-b">
-                                                    {Object.values(row).map((val, idx) => (
-                                                        <td key={idx} className="p-2">{String(val)}</td>
-                                                    ))}
-                                                </tr>
-                                            ))}
-                                        </tbody>
-                                    </table>
-                                </div>
-                            </div>
-                        </CardContent> */}
+                        <CardContent>
+                            <DataGrid synthetic={syntheticRows} source={sourceRows} pages={pages} />
+                        </CardContent>
                     </Card>
                 </TabsContent>
             </Tabs>
@@ -0,0 +1,173 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, Database, RotateCcw, ShieldAlert, TableProperties } from "lucide-react"
+import { parseTable } from "@/lib/tabular"
+import { type ColumnSchema, type ColumnType, COLUMN_TYPES, getSchemaWarnings, inferSchema } from "@/lib/schema"
+import { type ColumnPolicy, COLUMN_POLICIES, PII_LABELS, defaultPolicy, withPiiDetection } from "@/lib/pii"
+import type { UploadedFile } from "./synthetic-data-platform"
+
+interface SchemaReviewProps {
+    uploadedFile: UploadedFile
+    schema: ColumnSchema[] | null
+    onConfirm: (schema: ColumnSchema[]) => void
+}
+
+export function SchemaReview({ uploadedFile, schema, onConfirm }: SchemaReviewProps) {
+    const table = useMemo(() => parseTable(uploadedFile.content, uploadedFile.name), [uploadedFile])
+    const inferred = useMemo(() => withPiiDetection(inferSchema(table), table), [table])
+    const [columns, setColumns] = useState<ColumnSchema[]>(schema ?? inferred)
+
+    const overrides = columns.filter((c) => c.type !== c.inferredType || (c.policy ?? "synthesize") !== defaultPolicy(c)).length
+    const flagged = columns.filter((c) => c.pii)
+
+    const handleTypeChange = (name: string, type: ColumnType) => {
+        setColumns((prev) => prev.map((c) => (c.name === name ? { ...c, type } : c)))
+    }
+
+    const handlePolicyChange = (name: string, policy: ColumnPolicy) => {
+        setColumns((prev) => prev.map((c) => (c.name === name ? { ...c, policy } : c)))
+    }
+
+    const handleReset = () => {
+        setColumns(inferred)
+    }
+
+    if (!table.columns.length) {
+        return (
+            <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                    We couldn&apos;t find any columns in {uploadedFile.name}. Check that the file has a header row and try again.
+                </AlertDescription>
+            </Alert>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-4 p-4 bg-muted/30 rounded-lg">
+                <div className="flex items-center gap-2">
+                    <Database className="w-4 h-4 text-muted-foreground" />
+                    <span className="text-sm font-medium">{uploadedFile.name}</span>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                    {table.rows.length.toLocaleString()} rows • {table.columns.length} columns
+                </span>
+                {overrides > 0 && (
+                    <Badge variant="secondary" className="text-xs">
+                        {overrides} override{overrides === 1 ? "" : "s"}
+                    </Badge>
+                )}
+            </div>
+
+            {flagged.length > 0 && (
+                <Alert>
+                    <ShieldAlert className="h-4 w-4" />
+                    <AlertDescription>
+                        {flagged.length} column{flagged.length === 1 ? " looks" : "s look"} like personal data or direct identifiers (
+                        {flagged.map((c) => c.name).join(", ")}). Choose how each is treated; the treatment is applied before
+                        training and recorded with the job.
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            <Card>
+                <CardContent className="p-0">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b text-xs text-muted-foreground">
+                                    <th className="text-left p-3 font-medium">Column</th>
+                                    <th className="text-left p-3 font-medium">Type</th>
+                                    <th className="text-left p-3 font-medium">Privacy</th>
+                                    <th className="text-right p-3 font-medium">Null Rate</th>
+                                    <th className="text-right p-3 font-medium">Distinct</th>
+                                    <th className="text-left p-3 font-medium">Notes</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {columns.map((c) => (
+                                    <tr key={c.name} className="border-b last:border-0 align-top">
+                                        <td className="p-3">
+                                            <div className="font-medium">{c.name}</div>
+                                            <div className="text-xs text-muted-foreground truncate max-w-[220px]" title={c.samples.join(", ")}>
+                                                {c.samples.join(", ") || "—"}
+                                            </div>
+                                        </td>
+                                        <td className="p-3">
+                                            <select
+                                                value={c.type}
+                                                onChange={(e) => handleTypeChange(c.name, e.target.value as ColumnType)}
+                                                className="h-8 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-zinc-900 px-2 text-xs"
+                                            >
+                                                {COLUMN_TYPES.map((t) => (
+                                                    <option key={t.value} value={t.value}>
+                                                        {t.label}
+                                                        {t.value === c.inferredType ? " (detected)" : ""}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </td>
+                                        <td className="p-3">
+                                            <select
+                                                value={c.policy ?? "synthesize"}
+                                                onChange={(e) => handlePolicyChange(c.name, e.target.value as ColumnPolicy)}
+                                                title={COLUMN_POLICIES.find((p) => p.value === (c.policy ?? "synthesize"))?.description}
+                                                className="h-8 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-zinc-900 px-2 text-xs"
+                                            >
+                                                {COLUMN_POLICIES.map((p) => (
+                                                    <option key={p.value} value={p.value}>
+                                                        {p.label}
+                                                        {p.value === defaultPolicy(c) && c.pii ? " (suggested)" : ""}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            {c.pii && (
+                                                <div className="mt-1">
+                                                    <Badge
+                                                        variant="destructive"
+                                                        className="text-xs"
+                                                        title={`${Math.round(c.pii.confidence * 100)}% of sampled values matched`}
+                                                    >
+                                                        {PII_LABELS[c.pii.kind]}
+                                                    </Badge>
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="p-3 text-right tabular-nums">{(c.nullRate * 100).toFixed(1)}%</td>
+                                        <td className="p-3 text-right tabular-nums">{c.cardinality.toLocaleString()}</td>
+                                        <td className="p-3">
+                                            <div className="flex flex-wrap gap-1">
+                                                {getSchemaWarnings(c, table.rows.length).map((w) => (
+                                                    <Badge key={w} variant="outline" className="text-xs">
+                                                        {w}
+                                                    </Badge>
+                                                ))}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <div className="flex justify-between">
+                <Button variant="outline" onClick={handleReset} disabled={overrides === 0} className="px-4">
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Reset to Detected
+                </Button>
+                <Button onClick={() => onConfirm(columns)} className="px-6">
+                    <TableProperties className="w-4 h-4 mr-2" />
+                    Confirm Schema
+                </Button>
+            </div>
+        </div>
+    )
+}
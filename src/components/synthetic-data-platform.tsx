@@ -1,18 +1,33 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { FileUpload } from "./file-upload"
+import { DatasetProfileReview } from "./dataset-profile"
+import { SchemaReview } from "./schema-review"
 import { ModelSelection } from "./model-selection"
 import { ParameterControls } from "./parameter-controls"
 import { DataGeneration } from "./data-generation"
 import { ResultsDisplay } from "./results-display"
+import { JobHistory } from "./job-history"
 import { Button } from "./ui/button"
 import { Badge } from "./ui/badge"
 import { Progress } from "./ui/progress"
-import { Database, Upload, Brain, Settings, Play, BarChart3, Sparkles, ChevronRight } from "lucide-react"
+import { Database, Upload, ScanSearch, TableProperties, Brain, Settings, Play, BarChart3, Sparkles, ChevronRight, History } from "lucide-react"
 import { on } from "events"
-
-export type WorkflowStep = "upload" | "model" | "parameters" | "generate" | "results"
+import type { ColumnSchema } from "@/lib/schema"
+import type { PrivacySupport } from "@/lib/api-client"
+import type { EffectiveParameters } from "@/lib/hyperparameters"
+import type { ParameterField } from "@/lib/parameter-schema"
+import { clearActiveJob, getJobQueryParam, loadActiveJob, saveActiveJob } from "@/lib/active-job"
+import { type JobOutput, type JobRecord, putJob, putJobOutput, updateJob } from "@/lib/job-history"
+import type { QualityReport } from "@/lib/quality-metrics"
+import type { PrivacyReport } from "@/lib/privacy-metrics"
+import type { DatasetProfile } from "@/lib/profile"
+import type { GenerationCondition } from "@/lib/conditions"
+import type { Constraint } from "@/lib/constraints"
+import type { PrivacyBudget } from "@/lib/privacy-budget"
+
+export type WorkflowStep = "upload" | "analyze" | "schema" | "model" | "parameters" | "generate" | "results"
 
 export interface UploadedFile {
     name: string
@@ -23,10 +38,16 @@ export interface UploadedFile {
 
 export interface ModelConfig {
     id: string
+    // Backend model identifier, sent as `model_name` when training
+    modelName: string
     name: string
     description: string
     type: "tabular" | "text" | "image"
     details?: string[]
+    capabilities: string[]
+    supportedColumnTypes: string[]
+    privacySupport: PrivacySupport
+    parameterSchema?: ParameterField[]
 }
 
 export interface GenerationParameters {
@@ -34,20 +55,57 @@ export interface GenerationParameters {
     privacy: number
     quality: number
     diversity: number
+    // Fixed values or target mixes for categorical columns; sent with the generate request
+    conditions?: GenerationCondition[]
+    // Business rules attached to the run; sent with the training request
+    constraints?: Constraint[]
+    // Differential privacy target for DP-capable models; null trains an optional-DP model without it
+    privacyBudget?: PrivacyBudget | null
+    // Tabular runs hold some source rows out of training for the privacy evaluation unless this is false
+    holdout?: boolean
 }
 
 export interface GeneratedData {
     job_id: string
+    // Every row, or a random sample of them when `paged` (used for validation and the charts)
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     synthetic_data: Record<string, any>[]
+    total_rows?: number
+    // The full result stays on the backend and is read through /model/results and /model/download
+    paged?: boolean
+    // Hyperparameters derived from the sliders, and what the backend reports it actually used
+    requested_parameters?: EffectiveParameters
+    effective_parameters?: EffectiveParameters
+    // Computed during the validation step; results fall back to computing it when missing
+    quality_report?: QualityReport
+    // Same for the privacy evaluation
+    privacy_report?: PrivacyReport
+    // What the run was asked to honor; the results page checks the output against them
+    conditions?: GenerationCondition[]
+    constraints?: Constraint[]
+    // Candidate rows the backend redrew because they broke a constraint, when it reports them
+    rejected_rows?: number
+    // Privacy budget the backend's accountant reports training actually spent, for DP runs
+    privacy_spent?: PrivacyBudget
+    // When the run finished (ISO), or when it started for history entries without a finish time
+    generated_at?: string
     // samples: number
     // format: string
     // size: string
 }
 
+// History writes are best effort: a browser without IndexedDB still runs the workflow
+function recordHistory(action: Promise<unknown>) {
+    action.catch((e) => console.warn("[history]", e instanceof Error ? e.message : e))
+}
+
 export function SyntheticDataPlatform() {
+    const [view, setView] = useState<"workflow" | "history">("workflow")
     const [currentStep, setCurrentStep] = useState<WorkflowStep>("upload")
     const [uploadedFile, setUploadedFile] = useState<UploadedFile | null>(null)
+    // Profile of the uploaded dataset; the baseline the synthetic output is compared against
+    const [profile, setProfile] = useState<DatasetProfile | null>(null)
+    const [schema, setSchema] = useState<ColumnSchema[] | null>(null)
     const [selectedModel, setSelectedModel] = useState<ModelConfig | null>(null)
     const [parameters, setParameters] = useState<GenerationParameters>({
         samples: 1000,
@@ -57,9 +115,74 @@ export function SyntheticDataPlatform() {
     })
     const [generatedData, setGeneratedData] = useState<GeneratedData | null>(null)
     const [isGenerating, setIsGenerating] = useState(false)
+    // Job currently training on the backend; DataGeneration reattaches to it when it mounts
+    const [activeJob, setActiveJob] = useState<{ jobId: string; effectiveParameters: EffectiveParameters } | null>(null)
+
+    // Restore an in-progress run after a refresh. Runs after hydration since storage is browser-only.
+    useEffect(() => {
+        const saved = loadActiveJob()
+        const queryJobId = getJobQueryParam()
+        if (!saved || (queryJobId && queryJobId !== saved.jobId)) {
+            if (queryJobId) clearActiveJob()
+            return
+        }
+        setUploadedFile(saved.file)
+        setProfile(saved.profile ?? null)
+        setSchema(saved.schema)
+        setSelectedModel(saved.model)
+        setParameters(saved.parameters)
+        setActiveJob({ jobId: saved.jobId, effectiveParameters: saved.effectiveParameters })
+        setCurrentStep("generate")
+    }, [])
+
+    const handleJobChange = (jobId: string | null, effectiveParameters: EffectiveParameters = {}) => {
+        if (!jobId || !uploadedFile || !selectedModel) {
+            setActiveJob(null)
+            clearActiveJob()
+            return
+        }
+        setActiveJob({ jobId, effectiveParameters })
+        const { content, ...fileMeta } = uploadedFile
+        recordHistory(
+            putJob({
+                jobId,
+                createdAt: new Date().toISOString(),
+                status: "running",
+                file: fileMeta,
+                profile,
+                schema,
+                model: selectedModel,
+                parameters,
+                effectiveParameters,
+            }).then(() => putJobOutput({ jobId, source: content, synthetic: null })),
+        )
+        saveActiveJob({
+            version: 1,
+            jobId,
+            file: uploadedFile,
+            profile,
+            schema,
+            model: selectedModel,
+            parameters,
+            effectiveParameters,
+            startedAt: new Date().toISOString(),
+        })
+    }
 
     const handleFileUpload = (file: UploadedFile) => {
         setUploadedFile(file)
+        setProfile(null)
+        setSchema(null)
+        setCurrentStep("analyze")
+    }
+
+    const handleProfileConfirm = (analyzed: DatasetProfile) => {
+        setProfile(analyzed)
+        setCurrentStep("schema")
+    }
+
+    const handleSchemaConfirm = (confirmed: ColumnSchema[]) => {
+        setSchema(confirmed)
         setCurrentStep("model")
     }
 
@@ -77,6 +200,66 @@ export function SyntheticDataPlatform() {
         setCurrentStep("results")
     }
 
+    const handleGenerated = (data: GeneratedData) => {
+        const finishedAt = new Date().toISOString()
+        setGeneratedData({ ...data, generated_at: finishedAt })
+        recordHistory(
+            updateJob(data.job_id, {
+                status: "completed",
+                finishedAt,
+                sampleCount: data.total_rows ?? data.synthetic_data.length,
+                paged: data.paged,
+                requestedParameters: data.requested_parameters,
+                effectiveParameters: data.effective_parameters,
+                privacySpent: data.privacy_spent,
+            }).then(async () => {
+                await putJobOutput({ jobId: data.job_id, source: uploadedFile?.content ?? "", synthetic: data.synthetic_data })
+            }),
+        )
+    }
+
+    const handleJobEnd = (jobId: string, status: "cancelled" | "failed") => {
+        recordHistory(updateJob(jobId, { status, finishedAt: new Date().toISOString() }))
+    }
+
+    const handleReport = (report: QualityReport) => {
+        if (!generatedData) return
+        recordHistory(updateJob(generatedData.job_id, { metrics: { ...report.quality, overall: report.overall, rating: report.rating } }))
+    }
+
+    // Restore a past run's inputs; `toStep` is "results" to reopen its output or "parameters" to start a new run from it
+    const restoreFromHistory = (record: JobRecord, source: string, toStep: WorkflowStep) => {
+        setUploadedFile({ ...record.file, content: source })
+        setProfile(record.profile ?? null)
+        setSchema(record.schema)
+        setSelectedModel(record.model)
+        setParameters(record.parameters)
+        setActiveJob(null)
+        setCurrentStep(toStep)
+        setView("workflow")
+    }
+
+    const handleOpenResults = (record: JobRecord, output: JobOutput) => {
+        setGeneratedData({
+            job_id: record.jobId,
+            synthetic_data: output.synthetic ?? [],
+            total_rows: record.sampleCount,
+            paged: record.paged,
+            requested_parameters: record.requestedParameters,
+            effective_parameters: record.effectiveParameters,
+            conditions: record.parameters.conditions,
+            constraints: record.parameters.constraints,
+            privacy_spent: record.privacySpent,
+            generated_at: record.finishedAt ?? record.createdAt,
+        })
+        restoreFromHistory(record, output.source, "results")
+    }
+
+    const handleClone = (record: JobRecord, source: string) => {
+        setGeneratedData(null)
+        restoreFromHistory(record, source, "parameters")
+    }
+
     // const handleGenerate = async () => {
     //     setIsGenerating(true)
 
@@ -100,19 +283,24 @@ export function SyntheticDataPlatform() {
     const resetWorkflow = () => {
         setCurrentStep("upload")
         setUploadedFile(null)
+        setProfile(null)
+        setSchema(null)
         setSelectedModel(null)
         setGeneratedData(null)
         setIsGenerating(false)
+        setActiveJob(null)
+        clearActiveJob()
+        setView("workflow")
     }
 
     const getProgressPercentage = () => {
-        const steps = ["upload", "model", "parameters", "generate", "results"]
+        const steps = ["upload", "analyze", "schema", "model", "parameters", "generate", "results"]
         const currentIndex = steps.indexOf(currentStep)
         return ((currentIndex + 1) / steps.length) * 100
     }
 
     const getStepStatus = (step: WorkflowStep) => {
-        const steps = ["upload", "model", "parameters", "generate", "results"]
+        const steps = ["upload", "analyze", "schema", "model", "parameters", "generate", "results"]
         const currentIndex = steps.indexOf(currentStep)
         const stepIndex = steps.indexOf(step)
 
@@ -122,13 +310,14 @@ export function SyntheticDataPlatform() {
     }
 
     const handleStepClick = (step: WorkflowStep) => {
-        const steps = ["upload", "model", "parameters", "generate", "results"]
+        const steps = ["upload", "analyze", "schema", "model", "parameters", "generate", "results"]
         const currentIndex = steps.indexOf(currentStep)
         const targetIndex = steps.indexOf(step)
 
         // Only allow navigation to completed steps or the current step
         if (targetIndex <= currentIndex) {
             setCurrentStep(step)
+            setView("workflow")
         }
     }
 
@@ -161,6 +350,8 @@ export function SyntheticDataPlatform() {
                     <div className="space-y-2">
                         {[
                             { step: "upload" as WorkflowStep, icon: Upload, label: "Upload Dataset", desc: "Import your data file" },
+                            { step: "analyze" as WorkflowStep, icon: ScanSearch, label: "Analyze Data", desc: "Profile the dataset" },
+                            { step: "schema" as WorkflowStep, icon: TableProperties, label: "Review Schema", desc: "Confirm column types" },
                             { step: "model" as WorkflowStep, icon: Brain, label: "Select Model", desc: "Choose AI model type" },
                             {
                                 step: "parameters" as WorkflowStep,
@@ -198,14 +389,23 @@ export function SyntheticDataPlatform() {
                     </div>
                 </div>
 
-                {/* Reset Button */}
-                {currentStep !== "upload" && (
-                    <div className="p-4 border-t border-sidebar-border">
+                {/* History + Reset */}
+                <div className="p-4 border-t border-sidebar-border space-y-2">
+                    <Button
+                        variant={view === "history" ? "default" : "ghost"}
+                        onClick={() => setView(view === "history" ? "workflow" : "history")}
+                        size="sm"
+                        className="w-full justify-start text-xs"
+                    >
+                        <History className="w-4 h-4 mr-2" />
+                        Job History
+                    </Button>
+                    {currentStep !== "upload" && (
                         <Button variant="outline" onClick={resetWorkflow} size="sm" className="w-full text-xs bg-transparent">
                             New Project
                         </Button>
-                    </div>
-                )}
+                    )}
+                </div>
             </div>
 
             <div className="flex-1 flex flex-col overflow-hidden">
@@ -213,11 +413,14 @@ export function SyntheticDataPlatform() {
                     <div className="flex items-center justify-between">
                         <div>
                             <h2 className="text-xl font-semibold text-foreground">
-                                {currentStep === "upload" && "Upload Data"}
-                                {currentStep === "model" && "Select Model"}
-                                {currentStep === "parameters" && "Configure"}
-                                {currentStep === "generate" && "Generate"}
-                                {currentStep === "results" && "Results"}
+                                {view === "history" && "Job History"}
+                                {view === "workflow" && currentStep === "upload" && "Upload Data"}
+                                {view === "workflow" && currentStep === "analyze" && "Analyze Data"}
+                                {view === "workflow" && currentStep === "schema" && "Review Schema"}
+                                {view === "workflow" && currentStep === "model" && "Select Model"}
+                                {view === "workflow" && currentStep === "parameters" && "Configure"}
+                                {view === "workflow" && currentStep === "generate" && "Generate"}
+                                {view === "workflow" && currentStep === "results" && "Results"}
                             </h2>
                         </div>
                         {uploadedFile && (
@@ -231,74 +434,127 @@ export function SyntheticDataPlatform() {
 
                 <div className="flex-1 overflow-auto p-6">
                     <div className="max-w-3xl mx-auto">
-                        {currentStep === "upload" && (
-                            <div>
-                                <div className="mb-6">
-                                    <p className="text-muted-foreground text-sm">
-                                        Start by uploading your dataset. Spoof supports CSV, JSON, and Excel files up to 50MB.
-                                    </p>
-                                </div>
-                                <FileUpload onFileUpload={handleFileUpload} />
-                            </div>
-                        )}
-
-                        {currentStep === "model" && uploadedFile && (
+                        {view === "history" ? (
                             <div>
                                 <div className="mb-6">
                                     <p className="text-muted-foreground text-sm">
-                                        Choose the AI model that best fits your data type. Each model is optimized for different data
-                                        structures and use cases to ensure high-quality synthetic data generation.
+                                        Every run started in this browser, with its configuration and scores. Re-download an
+                                        output, reopen its results, or clone its configuration into a new run.
                                     </p>
                                 </div>
-                                <ModelSelection uploadedFile={uploadedFile} onModelSelect={handleModelSelect} />
-                            </div>
-                        )}
-
-                        {currentStep === "parameters" && selectedModel && (
-                            <div>
-                                <div className="mb-6">
-                                    <p className="text-muted-foreground text-sm">
-                                        Fine-tune the generation parameters to balance data quality, privacy protection, and diversity.
-                                        These settings control how closely the synthetic data matches your original dataset.
-                                    </p>
-                                </div>
-                                <ParameterControls
-                                    model={selectedModel}
-                                    parameters={parameters}
-                                    onParametersChange={setParameters}
-                                    onNext={handleParametersSet}
-                                />
-                            </div>
-                        )}
-
-                        {currentStep === "generate" && (
-                            <div>
-                                <div className="mb-6">
-                                    <p className="text-muted-foreground text-sm">
-                                        Ready to generate your synthetic dataset! The process typically takes 1-3 minutes depending on your
-                                        data size and selected parameters. You can monitor progress in real-time.
-                                    </p>
-                                </div>
-                                <DataGeneration
-                                    file={uploadedFile}
-                                    model={selectedModel}
-                                    parameters={parameters}
-                                    onNext={handleResultsView}
-                                    setGeneratedData={setGeneratedData}
-                                />
-                            </div>
-                        )}
-
-                        {currentStep === "results" && generatedData && (
-                            <div>
-                                <div className="mb-6">
-                                    <p className="text-muted-foreground text-sm">
-                                        Your synthetic dataset has been successfully generated! Review the quality metrics, preview the
-                                        data, and download in your preferred format.
-                                    </p>
-                                </div>
-                                <ResultsDisplay generatedData={generatedData} onReset={resetWorkflow} />
+                                <JobHistory onOpenResults={handleOpenResults} onClone={handleClone} />
                             </div>
+                        ) : (
+                            <>
+                                {currentStep === "upload" && (
+                                    <div>
+                                        <div className="mb-6">
+                                            <p className="text-muted-foreground text-sm">
+                                                Start by uploading your dataset. Spoof supports CSV, JSON, and Excel files up to 50MB.
+                                            </p>
+                                        </div>
+                                        <FileUpload onFileUpload={handleFileUpload} />
+                                    </div>
+                                )}
+
+                                {currentStep === "analyze" && uploadedFile && (
+                                    <div>
+                                        <div className="mb-6">
+                                            <p className="text-muted-foreground text-sm">
+                                                A profile of your dataset before anything is trained: missing values, distinct counts, value
+                                                ranges and duplicates. Fix anything unexpected in the source file now; this profile is also the
+                                                baseline the synthetic output is compared against.
+                                            </p>
+                                        </div>
+                                        <DatasetProfileReview uploadedFile={uploadedFile} onContinue={handleProfileConfirm} />
+                                    </div>
+                                )}
+
+                                {currentStep === "schema" && uploadedFile && (
+                                    <div>
+                                        <div className="mb-6">
+                                            <p className="text-muted-foreground text-sm">
+                                                Check the detected type of each column before training. Override anything that was guessed
+                                                wrong; identifiers are regenerated rather than learned, and sparse columns keep their empty rate.
+                                                Columns that look like personal data get a privacy treatment applied before training.
+                                            </p>
+                                        </div>
+                                        <SchemaReview uploadedFile={uploadedFile} schema={schema} onConfirm={handleSchemaConfirm} />
+                                    </div>
+                                )}
+
+                                {currentStep === "model" && uploadedFile && (
+                                    <div>
+                                        <div className="mb-6">
+                                            <p className="text-muted-foreground text-sm">
+                                                Choose the AI model that best fits your data type. Each model is optimized for different data
+                                                structures and use cases to ensure high-quality synthetic data generation.
+                                            </p>
+                                        </div>
+                                        <ModelSelection uploadedFile={uploadedFile} schema={schema} onModelSelect={handleModelSelect} />
+                                    </div>
+                                )}
+
+                                {currentStep === "parameters" && selectedModel && (
+                                    <div>
+                                        <div className="mb-6">
+                                            <p className="text-muted-foreground text-sm">
+                                                Fine-tune the generation parameters to balance data quality, privacy protection, and diversity.
+                                                These settings control how closely the synthetic data matches your original dataset.
+                                            </p>
+                                        </div>
+                                        <ParameterControls
+                                            model={selectedModel}
+                                            file={uploadedFile}
+                                            schema={schema}
+                                            parameters={parameters}
+                                            onParametersChange={setParameters}
+                                            onNext={handleParametersSet}
+                                        />
+                                    </div>
+                                )}
+
+                                {currentStep === "generate" && (
+                                    <div>
+                                        <div className="mb-6">
+                                            <p className="text-muted-foreground text-sm">
+                                                Ready to generate your synthetic dataset! The process typically takes 1-3 minutes depending on your
+                                                data size and selected parameters. You can monitor progress in real-time.
+                                            </p>
+                                        </div>
+                                        <DataGeneration
+                                            file={uploadedFile}
+                                            schema={schema}
+                                            model={selectedModel}
+                                            parameters={parameters}
+                                            onNext={handleResultsView}
+                                            setGeneratedData={handleGenerated}
+                                            resume={activeJob}
+                                            onJobChange={handleJobChange}
+                                            onJobEnd={handleJobEnd}
+                                        />
+                                    </div>
+                                )}
+
+                                {currentStep === "results" && generatedData && (
+                                    <div>
+                                        <div className="mb-6">
+                                            <p className="text-muted-foreground text-sm">
+                                                Your synthetic dataset has been successfully generated! Review the quality metrics, preview the
+                                                data, and download in your preferred format.
+                                            </p>
+                                        </div>
+                                        <ResultsDisplay
+                                            generatedData={generatedData}
+                                            uploadedFile={uploadedFile}
+                                            schema={schema}
+                                            profile={profile}
+                                            onReset={resetWorkflow}
+                                            onReport={handleReport}
+                                        />
+                                    </div>
+                                )}
+                            </>
                         )}
                     </div>
                 </div>
@@ -1,4 +1,4 @@
-import { CheckCircle, Upload, Brain, Settings, Zap, Download } from "lucide-react"
+import { CheckCircle, Upload, ScanSearch, TableProperties, Brain, Settings, Zap, Download } from "lucide-react"
 import { cn } from "@/lib/utils"
 import type { WorkflowStep } from "./synthetic-data-platform"
 
@@ -8,6 +8,8 @@ interface WorkflowProgressProps {
 
 const steps = [
     { id: "upload", label: "Upload Data", icon: Upload },
+    { id: "analyze", label: "Analyze Data", icon: ScanSearch },
+    { id: "schema", label: "Review Schema", icon: TableProperties },
     { id: "model", label: "Select Model", icon: Brain },
     { id: "parameters", label: "Set Parameters", icon: Settings },
     { id: "generate", label: "Generate", icon: Zap },
@@ -0,0 +1,70 @@
+import type { ColumnSchema } from "./schema"
+import type { DatasetProfile } from "./profile"
+import type { EffectiveParameters } from "./hyperparameters"
+import type { GenerationParameters, ModelConfig, UploadedFile } from "@/components/synthetic-data-platform"
+
+// Everything needed to put the generate step back together after a refresh.
+// Kept in localStorage, with the job id mirrored into the URL as ?job=<id>.
+export interface ActiveJob {
+    version: 1
+    jobId: string
+    file: UploadedFile & { dataset_id?: string }
+    // Missing in jobs saved before profiling existed
+    profile?: DatasetProfile | null
+    schema: ColumnSchema[] | null
+    model: ModelConfig
+    parameters: GenerationParameters
+    effectiveParameters: EffectiveParameters
+    startedAt: string
+}
+
+const STORAGE_KEY = "spoof.activeJob"
+export const JOB_QUERY_PARAM = "job"
+
+export function loadActiveJob(): ActiveJob | null {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY)
+        if (!raw) return null
+        const saved = JSON.parse(raw) as Partial<ActiveJob>
+        if (saved.version !== 1 || typeof saved.jobId !== "string" || !saved.file || !saved.model || !saved.parameters) {
+            return null
+        }
+        return saved as ActiveJob
+    } catch {
+        return null
+    }
+}
+
+export function saveActiveJob(job: ActiveJob) {
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(job))
+    } catch {
+        // Over quota: large uploads don't fit, but the job can still be reattached without the file contents
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...job, file: { ...job.file, content: "" } }))
+        } catch {
+            // Storage unavailable (private mode); resuming just won't work
+        }
+    }
+    setJobQueryParam(job.jobId)
+}
+
+export function clearActiveJob() {
+    try {
+        window.localStorage.removeItem(STORAGE_KEY)
+    } catch {
+        // ignore
+    }
+    setJobQueryParam(null)
+}
+
+export function getJobQueryParam() {
+    return new URL(window.location.href).searchParams.get(JOB_QUERY_PARAM)
+}
+
+function setJobQueryParam(jobId: string | null) {
+    const url = new URL(window.location.href)
+    if (jobId) url.searchParams.set(JOB_QUERY_PARAM, jobId)
+    else url.searchParams.delete(JOB_QUERY_PARAM)
+    window.history.replaceState(window.history.state, "", url)
+}
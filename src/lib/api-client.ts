@@ -0,0 +1,391 @@
+import { API_BASE_PATH } from "./config"
+import type { Row } from "./tabular"
+import type { EffectiveParameters, SamplingHyperparameters, TrainingHyperparameters } from "./hyperparameters"
+import { type ParameterField, type ParameterKey, PARAMETER_KEYS } from "./parameter-schema"
+import type { ColumnPolicy } from "./pii"
+import type { GenerationCondition } from "./conditions"
+import type { Constraint } from "./constraints"
+import type { ExportFormat } from "./export-formats"
+import type { PrivacyBudget } from "./privacy-budget"
+
+// ---- Errors ----------------------------------------------------------------
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        public readonly status?: number,
+    ) {
+        super(message)
+        this.name = "ApiError"
+    }
+}
+
+export class ResponseValidationError extends ApiError {
+    constructor(endpoint: string, detail: string) {
+        super(`Unexpected response from ${endpoint}: ${detail}`)
+        this.name = "ResponseValidationError"
+    }
+}
+
+// ---- Contract --------------------------------------------------------------
+export interface UploadResponse {
+    dataset_id: string
+}
+
+export interface TrainRequest {
+    model_name: string
+    dataset_id: string
+    schema?: { name: string; type: string; nullable: boolean; null_rate: number }[]
+    // Applied to the dataset before training; columns not listed are synthesized normally
+    column_policies?: { name: string; action: ColumnPolicy }[]
+    // Rules the job's generated rows must follow; the backend redraws rows that break them
+    constraints?: Constraint[]
+    // Source row indexes to leave out of training; the privacy evaluation uses them as unseen records
+    holdout_rows?: number[]
+    hyperparameters?: TrainingHyperparameters
+}
+
+export interface TrainResponse {
+    job_id: string
+    // Values the backend actually applied, after its own clamping/defaults
+    effective_parameters?: EffectiveParameters
+}
+
+export interface JobStatus {
+    status: string
+    // "preprocessing" | "training" | "generation" on backends that report it
+    phase?: string
+    percent?: number
+    // Differential privacy budget the training run spent, once it has finished (DP runs only)
+    privacy_spent?: PrivacyBudget
+}
+
+export type PrivacySupport = "none" | "optional" | "required"
+
+export interface CatalogModel {
+    id: string
+    // Identifier the backend expects as `model_name` when training
+    model_name: string
+    name: string
+    description: string
+    type: "tabular" | "text" | "image"
+    capabilities: string[]
+    supported_column_types: string[]
+    privacy_support: PrivacySupport
+    // Parameter form for this model; the client falls back to a default when absent
+    parameters?: ParameterField[]
+}
+
+export interface GenerateResponse {
+    job_id: string
+    // Present when the backend returns the rows inline; paged backends keep them for /model/results
+    synthetic_data?: Row[]
+    total_rows: number
+    // Candidate rows redrawn because they broke a constraint
+    rejected_rows?: number
+    effective_parameters?: EffectiveParameters
+}
+
+export interface ResultsPage {
+    job_id: string
+    total_rows: number
+    offset: number
+    rows: Row[]
+}
+
+// ---- Validation ------------------------------------------------------------
+type Json = Record<string, unknown>
+
+function expectObject(endpoint: string, value: unknown): Json {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        throw new ResponseValidationError(endpoint, "expected a JSON object")
+    }
+    return value as Json
+}
+
+function expectId(endpoint: string, body: Json, key: string): string {
+    const value = body[key]
+    if (typeof value !== "string" || !value.trim()) {
+        throw new ResponseValidationError(endpoint, `"${key}" must be a non-empty string`)
+    }
+    return value
+}
+
+function optionalParameters(endpoint: string, body: Json): EffectiveParameters | undefined {
+    const value = body.effective_parameters
+    if (value === undefined || value === null) return undefined
+    const params = expectObject(endpoint, value)
+    for (const [key, v] of Object.entries(params)) {
+        if (!["number", "string", "boolean"].includes(typeof v)) {
+            throw new ResponseValidationError(endpoint, `"effective_parameters.${key}" must be a number, string or boolean`)
+        }
+    }
+    return params as EffectiveParameters
+}
+
+function validateUpload(value: unknown): UploadResponse {
+    const body = expectObject("/dataset/upload", value)
+    return { dataset_id: expectId("/dataset/upload", body, "dataset_id") }
+}
+
+function validateTrain(value: unknown): TrainResponse {
+    const body = expectObject("/model/train", value)
+    return {
+        job_id: expectId("/model/train", body, "job_id"),
+        effective_parameters: optionalParameters("/model/train", body),
+    }
+}
+
+function validateStatus(value: unknown): JobStatus {
+    const body = expectObject("/model/status", value)
+    if (typeof body.status !== "string") {
+        throw new ResponseValidationError("/model/status", `"status" must be a string`)
+    }
+    const percent = body.percent === undefined || body.percent === null ? undefined : Number(body.percent)
+    if (percent !== undefined && !Number.isFinite(percent)) {
+        throw new ResponseValidationError("/model/status", `"percent" must be a number`)
+    }
+    return { ...body, status: body.status, percent, privacy_spent: parsePrivacySpent(body.privacy_spent) }
+}
+
+// Only displayed, so a malformed value counts as not reported rather than failing the status check
+// (the polling fallback would otherwise give up on the run after a few of them)
+function parsePrivacySpent(value: unknown): PrivacyBudget | undefined {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return undefined
+    const { epsilon, delta } = value as Json
+    const valid = (n: unknown): n is number => typeof n === "number" && Number.isFinite(n) && n >= 0
+    return valid(epsilon) && valid(delta) ? { epsilon, delta } : undefined
+}
+
+const MODEL_TYPES = ["tabular", "text", "image"]
+const PRIVACY_SUPPORT: PrivacySupport[] = ["none", "optional", "required"]
+
+function expectStrings(endpoint: string, body: Json, key: string): string[] {
+    const value = body[key] ?? []
+    if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+        throw new ResponseValidationError(endpoint, `"${key}" must be an array of strings`)
+    }
+    return value
+}
+
+function validateParameterField(endpoint: string, value: unknown): ParameterField {
+    const field = expectObject(endpoint, value)
+    if (typeof field.key !== "string" || !PARAMETER_KEYS.includes(field.key as ParameterKey)) {
+        throw new ResponseValidationError(endpoint, `"key" must be one of ${PARAMETER_KEYS.join(", ")}`)
+    }
+    if (field.type !== "integer" && field.type !== "percent") {
+        throw new ResponseValidationError(endpoint, `"type" must be "integer" or "percent"`)
+    }
+    for (const key of ["min", "max", "step", "default"]) {
+        if (typeof field[key] !== "number" || !Number.isFinite(field[key])) {
+            throw new ResponseValidationError(endpoint, `"${key}" must be a number`)
+        }
+    }
+    return {
+        key: field.key as ParameterKey,
+        label: typeof field.label === "string" ? field.label : field.key,
+        type: field.type,
+        min: field.min as number,
+        max: field.max as number,
+        step: field.step as number,
+        default: field.default as number,
+        required: field.required === true,
+        disabled: field.disabled === true,
+        help: typeof field.help === "string" ? field.help : undefined,
+    }
+}
+
+function validateCatalog(value: unknown): CatalogModel[] {
+    const body = expectObject("/model/catalog", value)
+    if (!Array.isArray(body.models)) {
+        throw new ResponseValidationError("/model/catalog", `"models" must be an array`)
+    }
+    return body.models.map((entry, i) => {
+        const endpoint = `/model/catalog (models[${i}])`
+        const model = expectObject(endpoint, entry)
+        const type = model.type
+        if (typeof type !== "string" || !MODEL_TYPES.includes(type)) {
+            throw new ResponseValidationError(endpoint, `"type" must be one of ${MODEL_TYPES.join(", ")}`)
+        }
+        const privacy = model.privacy_support
+        if (typeof privacy !== "string" || !PRIVACY_SUPPORT.includes(privacy as PrivacySupport)) {
+            throw new ResponseValidationError(endpoint, `"privacy_support" must be one of ${PRIVACY_SUPPORT.join(", ")}`)
+        }
+        return {
+            id: expectId(endpoint, model, "id"),
+            model_name: expectId(endpoint, model, "model_name"),
+            name: expectId(endpoint, model, "name"),
+            description: typeof model.description === "string" ? model.description : "",
+            type: type as CatalogModel["type"],
+            capabilities: expectStrings(endpoint, model, "capabilities"),
+            supported_column_types: expectStrings(endpoint, model, "supported_column_types"),
+            privacy_support: privacy as PrivacySupport,
+            parameters: Array.isArray(model.parameters)
+                ? model.parameters.map((f, j) => validateParameterField(`${endpoint}.parameters[${j}]`, f))
+                : undefined,
+        }
+    })
+}
+
+function expectRows(endpoint: string, body: Json, key: string): Row[] {
+    const rows = body[key]
+    if (!Array.isArray(rows)) {
+        throw new ResponseValidationError(endpoint, `"${key}" must be an array`)
+    }
+    const bad = rows.findIndex((r) => !r || typeof r !== "object" || Array.isArray(r))
+    if (bad !== -1) {
+        throw new ResponseValidationError(endpoint, `"${key}[${bad}]" must be an object`)
+    }
+    return rows as Row[]
+}
+
+function expectCount(endpoint: string, body: Json, key: string): number {
+    const value = body[key]
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+        throw new ResponseValidationError(endpoint, `"${key}" must be a non-negative integer`)
+    }
+    return value
+}
+
+function validateGenerate(value: unknown, requestedJobId: string): GenerateResponse {
+    const body = expectObject("/model/generate", value)
+    // Backends without paging ignore the request for it and send every row back
+    const rows = body.synthetic_data === undefined ? undefined : expectRows("/model/generate", body, "synthetic_data")
+    // Older backends omit job_id here; when present it must still be well formed
+    const jobId = body.job_id === undefined ? requestedJobId : expectId("/model/generate", body, "job_id")
+    return {
+        job_id: jobId,
+        synthetic_data: rows,
+        total_rows: rows ? rows.length : expectCount("/model/generate", body, "total_rows"),
+        rejected_rows: body.rejected_rows === undefined ? undefined : expectCount("/model/generate", body, "rejected_rows"),
+        effective_parameters: optionalParameters("/model/generate", body),
+    }
+}
+
+function validateResultsPage(value: unknown, requestedJobId: string): ResultsPage {
+    const body = expectObject("/model/results", value)
+    return {
+        job_id: body.job_id === undefined ? requestedJobId : expectId("/model/results", body, "job_id"),
+        total_rows: expectCount("/model/results", body, "total_rows"),
+        offset: expectCount("/model/results", body, "offset"),
+        rows: expectRows("/model/results", body, "rows"),
+    }
+}
+
+// ---- Transport -------------------------------------------------------------
+function apiUrl(path: string) {
+    return `${API_BASE_PATH}${path}`
+}
+
+async function send(path: string, init: RequestInit, failure: string): Promise<Response> {
+    let res: Response
+    try {
+        res = await fetch(apiUrl(path), init)
+    } catch (e) {
+        throw new ApiError(`${failure}: ${e instanceof Error ? e.message : "network error"}`)
+    }
+    if (!res.ok) {
+        // The proxy routes report their own failures (timeouts, size limits) as { error }
+        const detail = await res.json().then((b) => (typeof b?.error === "string" ? `: ${b.error}` : ""), () => "")
+        throw new ApiError(`${failure} (HTTP ${res.status})${detail}`, res.status)
+    }
+    return res
+}
+
+async function request<T>(path: string, init: RequestInit, validate: (value: unknown) => T, failure: string): Promise<T> {
+    const res = await send(path, init, failure)
+
+    let body: unknown
+    try {
+        body = await res.json()
+    } catch {
+        throw new ResponseValidationError(path, "body is not valid JSON")
+    }
+    return validate(body)
+}
+
+// ---- Endpoints -------------------------------------------------------------
+export function uploadDataset(file: File, init: RequestInit = {}): Promise<UploadResponse> {
+    const formData = new FormData()
+    formData.append("file", file)
+    return request("/dataset/upload", { ...init, method: "POST", body: formData }, validateUpload, "Failed to upload file")
+}
+
+export function listModels(init: RequestInit = {}): Promise<CatalogModel[]> {
+    return request("/model/catalog", init, validateCatalog, "Failed to load models")
+}
+
+export function trainModel(body: TrainRequest, init: RequestInit = {}): Promise<TrainResponse> {
+    return request(
+        "/model/train",
+        { ...init, method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) },
+        validateTrain,
+        "Failed to start model training",
+    )
+}
+
+export function getJobStatus(jobId: string, init: RequestInit = {}): Promise<JobStatus> {
+    return request(`/model/status/${encodeURIComponent(jobId)}`, init, validateStatus, "Status fetch failed")
+}
+
+export function generateSamples(
+    jobId: string,
+    count: number,
+    sampling?: SamplingHyperparameters,
+    init: RequestInit = {},
+    conditions: GenerationCondition[] = [],
+): Promise<GenerateResponse> {
+    // Ask the backend to keep the rows; they are read back through getResultsPage / downloadResults
+    const query = new URLSearchParams({ count: String(count), paged: "1" })
+    if (sampling) query.set("temperature", String(sampling.temperature))
+    if (conditions.length) query.set("conditions", JSON.stringify(conditions))
+    return request(
+        `/model/generate/${encodeURIComponent(jobId)}?${query}`,
+        init,
+        (value) => validateGenerate(value, jobId),
+        "Failed to start generation",
+    )
+}
+
+export function cancelJob(jobId: string, init: RequestInit = {}): Promise<JobStatus> {
+    return request(`/model/cancel/${encodeURIComponent(jobId)}`, { ...init, method: "POST" }, validateStatus, "Failed to cancel job")
+}
+
+export function getResultsPage(jobId: string, offset: number, limit: number, init: RequestInit = {}): Promise<ResultsPage> {
+    const query = new URLSearchParams({ offset: String(offset), limit: String(limit) })
+    return request(
+        `/model/results/${encodeURIComponent(jobId)}?${query}`,
+        init,
+        (value) => validateResultsPage(value, jobId),
+        "Failed to load generated rows",
+    )
+}
+
+// Set by the backend on a download it filtered for `drop_copies`, to the number of rows left out.
+// Without it the file may still contain copies, so the client doesn't treat the filter as applied.
+export const DROPPED_COPIES_HEADER = "X-Dropped-Copies"
+
+// `dropCopies` asks the backend to leave out rows that are exact copies of source rows
+function downloadPath(jobId: string, format: ExportFormat, dropCopies: boolean) {
+    return `/model/download/${encodeURIComponent(jobId)}?format=${format}${dropCopies ? "&drop_copies=1" : ""}`
+}
+
+// For links the browser downloads itself
+export function resultsDownloadUrl(jobId: string, format: ExportFormat, dropCopies = false) {
+    return apiUrl(downloadPath(jobId, format, dropCopies))
+}
+
+// The generated file as a byte stream, for writing to disk without buffering it
+export async function downloadResults(
+    jobId: string,
+    format: ExportFormat,
+    init: RequestInit = {},
+    dropCopies = false,
+): Promise<ReadableStream<Uint8Array>> {
+    const res = await send(downloadPath(jobId, format, dropCopies), init, "Download failed")
+    if (!res.body) throw new ApiError("Download failed: empty response", res.status)
+    if (dropCopies && res.headers.get(DROPPED_COPIES_HEADER) === null) {
+        void res.body.cancel()
+        throw new ApiError("Download failed: the backend can't leave out copies of source rows. Turn off dropping copies to download every row.")
+    }
+    return res.body
+}
@@ -0,0 +1,100 @@
+import { type Row, type Table, isMissing, toKey } from "./tabular"
+import type { ColumnSchema } from "./schema"
+
+// Conditional generation: fix a column to one value, or ask for a target mix of its values
+// ("60% Completed, 25% Cancelled by Driver, 15% No Driver Found"). Conditions are sent with the
+// generate request; the results page checks the output against them.
+
+export interface ConditionTarget {
+    value: string
+    // 0-1 share of the generated rows
+    share: number
+}
+
+export interface GenerationCondition {
+    column: string
+    // A single target with share 1 fixes the column to that value
+    targets: ConditionTarget[]
+}
+
+// Columns with more distinct values than this aren't offered; a mix over them isn't meaningful
+export const MAX_CONDITION_VALUES = 100
+// How far an output share may drift from its target and still count as honored
+export const CONDITION_TOLERANCE = 0.02
+
+export function isFixedCondition(condition: GenerationCondition) {
+    return condition.targets.length === 1 && condition.targets[0].share === 1
+}
+
+// Categorical columns that are synthesized normally, with their values by frequency
+export function conditionableColumns(table: Table, schema: ColumnSchema[] | null): { column: string; values: string[] }[] {
+    const columns = schema
+        ? schema.filter((c) => c.type === "categorical" && (c.policy ?? "synthesize") === "synthesize").map((c) => c.name)
+        : table.columns
+    const out: { column: string; values: string[] }[] = []
+    for (const column of columns) {
+        const counts = new Map<string, number>()
+        for (const r of table.rows) {
+            if (!isMissing(r[column])) counts.set(toKey(r[column]), (counts.get(toKey(r[column])) ?? 0) + 1)
+        }
+        if (counts.size < 2 || counts.size > MAX_CONDITION_VALUES) continue
+        out.push({ column, values: Array.from(counts).sort((a, b) => b[1] - a[1]).map(([value]) => value) })
+    }
+    return out
+}
+
+// Problems with the conditions as entered, by condition index
+export function validateConditions(conditions: GenerationCondition[]): Record<number, string> {
+    const errors: Record<number, string> = {}
+    const seen = new Set<string>()
+    conditions.forEach((condition, i) => {
+        if (!condition.column) {
+            errors[i] = "Choose a column"
+        } else if (seen.has(condition.column)) {
+            errors[i] = `${condition.column} already has a condition`
+        } else if (!condition.targets.length || condition.targets.some((t) => !t.value)) {
+            errors[i] = "Choose a value for every target"
+        } else if (new Set(condition.targets.map((t) => t.value)).size !== condition.targets.length) {
+            errors[i] = "Each value can only appear once"
+        } else if (condition.targets.some((t) => !Number.isFinite(t.share) || t.share <= 0 || t.share > 1)) {
+            errors[i] = "Shares must be between 1% and 100%"
+        } else {
+            const total = condition.targets.reduce((s, t) => s + t.share, 0)
+            if (Math.abs(total - 1) > 0.001) errors[i] = `Shares add up to ${Math.round(total * 100)}%, not 100%`
+        }
+        seen.add(condition.column)
+    })
+    return errors
+}
+
+export function describeCondition(condition: GenerationCondition) {
+    if (isFixedCondition(condition)) return `${condition.column} = ${condition.targets[0].value}`
+    return `${condition.column}: ${condition.targets.map((t) => `${Math.round(t.share * 100)}% ${t.value}`).join(", ")}`
+}
+
+export interface ConditionCheck {
+    condition: GenerationCondition
+    targets: { value: string; target: number; actual: number; honored: boolean }[]
+    // Share of rows with a value outside the targets
+    other: number
+    honored: boolean
+}
+
+// How closely `rows` follow each condition
+export function checkConditions(rows: Row[], conditions: GenerationCondition[]): ConditionCheck[] {
+    return conditions.map((condition) => {
+        const counts = new Map<string, number>()
+        for (const r of rows) {
+            const key = isMissing(r[condition.column]) ? "" : toKey(r[condition.column])
+            counts.set(key, (counts.get(key) ?? 0) + 1)
+        }
+        const total = Math.max(1, rows.length)
+        const fixed = isFixedCondition(condition)
+        const targets = condition.targets.map((t) => {
+            const actual = (counts.get(t.value) ?? 0) / total
+            return { value: t.value, target: t.share, actual, honored: fixed ? actual === 1 : Math.abs(actual - t.share) <= CONDITION_TOLERANCE }
+        })
+        const other = Math.max(0, 1 - targets.reduce((s, t) => s + t.actual, 0))
+        return { condition, targets, other, honored: rows.length > 0 && targets.every((t) => t.honored) }
+    })
+}
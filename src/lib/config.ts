@@ -0,0 +1,34 @@
+export type BackendMode = "proxy" | "simulation"
+
+export interface ServerConfig {
+    // "simulation" serves the API from src/lib/simulation.ts instead of forwarding to apiBaseUrl
+    backend: BackendMode
+    apiBaseUrl: string
+    // Upstream calls taking longer than this are aborted with a 504
+    proxyTimeoutMs: number
+    // Request bodies above this size are rejected with a 413 before reaching the backend
+    maxUploadBytes: number
+    // Log every proxied request, not just failures
+    logRequests: boolean
+}
+
+export const DEFAULT_API_BASE_URL = "http://localhost:8003"
+
+// Browser code only talks to its own origin; the route handlers under src/app/api forward to the backend
+export const API_BASE_PATH = "/api"
+
+function readNumber(value: string | undefined, fallback: number) {
+    const n = Number(value)
+    return value && Number.isFinite(n) && n > 0 ? n : fallback
+}
+
+// Server only: read per request so the standalone image can be pointed anywhere with `-e SPOOF_API_URL=...`
+export function readServerConfig(): ServerConfig {
+    return {
+        backend: process.env.SPOOF_BACKEND === "simulation" ? "simulation" : "proxy",
+        apiBaseUrl: (process.env.SPOOF_API_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, ""),
+        proxyTimeoutMs: readNumber(process.env.SPOOF_PROXY_TIMEOUT_MS, 5 * 60 * 1000),
+        maxUploadBytes: readNumber(process.env.SPOOF_MAX_UPLOAD_BYTES, 50 * 1024 * 1024),
+        logRequests: process.env.SPOOF_LOG_REQUESTS === "1",
+    }
+}
@@ -0,0 +1,219 @@
+import { type Row, isMissing, toKey, toNumber } from "./tabular"
+import type { ColumnType } from "./schema"
+
+// Business rules the output must follow ("Booking Value >= 0", "Drop Location != Pickup Location",
+// "if Booking Status = Completed then Driver Cancellation Reason is empty"). They are attached to the
+// run with the training request; the backend redraws rows that break them, and the results page
+// re-checks the output.
+
+export type CompareOperator = "<" | "<=" | ">" | ">=" | "=" | "!="
+
+export type Constraint =
+    | { kind: "range"; column: string; min: number | null; max: number | null }
+    | { kind: "compare"; column: string; operator: CompareOperator; other: string }
+    // `when` null means "has any value"
+    | { kind: "implies"; column: string; when: string | null; target: string; state: "null" | "not_null" }
+    | { kind: "unique"; column: string }
+    | { kind: "allowed"; column: string; values: string[] }
+
+export type ConstraintKind = Constraint["kind"]
+
+export const CONSTRAINT_KINDS: { value: ConstraintKind; label: string }[] = [
+    { value: "range", label: "Range" },
+    { value: "compare", label: "Compare columns" },
+    { value: "implies", label: "If … then" },
+    { value: "unique", label: "Unique" },
+    { value: "allowed", label: "Allowed values" },
+]
+
+export const COMPARE_OPERATORS: CompareOperator[] = ["<", "<=", ">", ">=", "=", "!="]
+
+// Offending rows kept per rule for the report
+const EXAMPLE_ROWS = 5
+
+// ISO 8601 dates and date-times. Date.parse alone is far too lenient: V8 reads "Gate 3" and
+// "Terminal 3" as the same date.
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+// Columns whose schema type is a date or date-time; their values compare as dates in any format
+export function dateColumns(schema: { name: string; type: ColumnType }[] | null | undefined): Set<string> {
+    return new Set((schema ?? []).filter((c) => c.type === "date" || c.type === "datetime").map((c) => c.name))
+}
+
+// Numbers compare as numbers; dates as dates when both columns are typed as dates or both values are
+// ISO dates; anything else by its text
+function compareValues(a: unknown, b: unknown, typedDates: boolean): number {
+    const x = toNumber(a)
+    const y = toNumber(b)
+    if (x !== null && y !== null) return x - y
+    if (typedDates || (ISO_DATE.test(toKey(a)) && ISO_DATE.test(toKey(b)))) {
+        const dx = Date.parse(toKey(a))
+        const dy = Date.parse(toKey(b))
+        if (Number.isFinite(dx) && Number.isFinite(dy)) return dx - dy
+    }
+    const kx = toKey(a)
+    const ky = toKey(b)
+    return kx < ky ? -1 : kx > ky ? 1 : 0
+}
+
+function holds(operator: CompareOperator, difference: number) {
+    switch (operator) {
+        case "<":
+            return difference < 0
+        case "<=":
+            return difference <= 0
+        case ">":
+            return difference > 0
+        case ">=":
+            return difference >= 0
+        case "=":
+            return difference === 0
+        case "!=":
+            return difference !== 0
+    }
+}
+
+// Row-level rules; a missing value never breaks a range, comparison or value set (use "if … then" for that)
+function breaksRule(row: Row, c: Exclude<Constraint, { kind: "unique" }>, dates: ReadonlySet<string>): boolean {
+    const value = row[c.column]
+    switch (c.kind) {
+        case "range": {
+            if (isMissing(value)) return false
+            const n = toNumber(value)
+            if (n === null) return true
+            return (c.min !== null && n < c.min) || (c.max !== null && n > c.max)
+        }
+        case "compare": {
+            const other = row[c.other]
+            if (isMissing(value) || isMissing(other)) return false
+            return !holds(c.operator, compareValues(value, other, dates.has(c.column) && dates.has(c.other)))
+        }
+        case "implies": {
+            const applies = c.when === null ? !isMissing(value) : !isMissing(value) && toKey(value) === c.when
+            if (!applies) return false
+            return c.state === "null" ? !isMissing(row[c.target]) : isMissing(row[c.target])
+        }
+        case "allowed":
+            return !isMissing(value) && !c.values.includes(toKey(value))
+    }
+}
+
+// Checks rows one at a time. Uniqueness depends on the rows accepted so far, so callers `accept`
+// each row they keep; rejected draws don't count towards it. `dates` are the date-typed columns (see dateColumns).
+export function createConstraintChecker(constraints: Constraint[], dates: ReadonlySet<string> = new Set()) {
+    const seen = new Map<number, Set<string>>()
+    constraints.forEach((c, i) => {
+        if (c.kind === "unique") seen.set(i, new Set())
+    })
+    return {
+        // Indexes of the rules `row` breaks
+        violations(row: Row): number[] {
+            const broken: number[] = []
+            constraints.forEach((c, i) => {
+                const value = row[c.column]
+                const bad = c.kind === "unique" ? !isMissing(value) && seen.get(i)!.has(toKey(value)) : breaksRule(row, c, dates)
+                if (bad) broken.push(i)
+            })
+            return broken
+        },
+        accept(row: Row) {
+            for (const [i, values] of seen) {
+                const value = row[constraints[i].column]
+                if (!isMissing(value)) values.add(toKey(value))
+            }
+        },
+    }
+}
+
+// Columns a rule reads, for showing offending rows
+export function constraintColumns(c: Constraint): string[] {
+    if (c.kind === "compare") return [c.column, c.other]
+    if (c.kind === "implies") return [c.column, c.target]
+    return [c.column]
+}
+
+export function describeConstraint(c: Constraint): string {
+    switch (c.kind) {
+        case "range":
+            if (c.min !== null && c.max !== null) return `${c.min} ≤ ${c.column} ≤ ${c.max}`
+            return c.min !== null ? `${c.column} ≥ ${c.min}` : `${c.column} ≤ ${c.max}`
+        case "compare":
+            return `${c.column} ${c.operator} ${c.other}`
+        case "implies": {
+            const condition = c.when === null ? `${c.column} has a value` : `${c.column} = ${c.when}`
+            return `If ${condition} then ${c.target} is ${c.state === "null" ? "empty" : "not empty"}`
+        }
+        case "unique":
+            return `${c.column} is unique`
+        case "allowed":
+            return `${c.column} in {${c.values.join(", ")}}`
+    }
+}
+
+// Problems with the rules as entered, by rule index
+export function validateConstraints(constraints: Constraint[], columns: string[]): Record<number, string> {
+    const errors: Record<number, string> = {}
+    const known = new Set(columns)
+    const described = new Set<string>()
+    constraints.forEach((c, i) => {
+        const unknown = constraintColumns(c).find((column) => !known.has(column))
+        if (unknown !== undefined) {
+            errors[i] = unknown ? `Unknown column "${unknown}"` : "Choose a column"
+        } else if (c.kind === "range" && c.min === null && c.max === null) {
+            errors[i] = "Set a minimum, a maximum or both"
+        } else if (c.kind === "range" && [c.min, c.max].some((v) => v !== null && !Number.isFinite(v))) {
+            errors[i] = "Bounds must be numbers"
+        } else if (c.kind === "range" && c.min !== null && c.max !== null && c.min > c.max) {
+            errors[i] = "The minimum is above the maximum"
+        } else if ((c.kind === "compare" || c.kind === "implies") && constraintColumns(c)[0] === constraintColumns(c)[1]) {
+            errors[i] = "Choose two different columns"
+        } else if (c.kind === "allowed" && !c.values.length) {
+            errors[i] = "Allow at least one value"
+        } else if (described.has(describeConstraint(c))) {
+            errors[i] = "Duplicate rule"
+        }
+        described.add(describeConstraint(c))
+    })
+    return errors
+}
+
+export interface ConstraintCheck {
+    constraint: Constraint
+    violations: number
+    examples: Row[]
+}
+
+// Violations per rule over `rows`; for uniqueness every repeat after the first occurrence counts
+export function checkConstraints(rows: Row[], constraints: Constraint[], dates: ReadonlySet<string> = new Set()): ConstraintCheck[] {
+    const checks: ConstraintCheck[] = constraints.map((constraint) => ({ constraint, violations: 0, examples: [] }))
+    const checker = createConstraintChecker(constraints, dates)
+    for (const row of rows) {
+        for (const i of checker.violations(row)) {
+            checks[i].violations++
+            if (checks[i].examples.length < EXAMPLE_ROWS) checks[i].examples.push(row)
+        }
+        checker.accept(row)
+    }
+    return checks
+}
+
+// Parses a `constraints` payload, dropping entries that aren't well-formed rules
+export function parseConstraints(value: unknown): Constraint[] {
+    if (!Array.isArray(value)) return []
+    const text = (v: unknown): v is string => typeof v === "string"
+    const bound = (v: unknown) => (v === null || v === undefined || v === "" ? null : Number(v))
+    const out: Constraint[] = []
+    for (const c of value as Record<string, unknown>[]) {
+        if (!c || !text(c.column)) continue
+        if (c.kind === "range") out.push({ kind: "range", column: c.column, min: bound(c.min), max: bound(c.max) })
+        else if (c.kind === "compare" && text(c.other) && COMPARE_OPERATORS.includes(c.operator as CompareOperator)) {
+            out.push({ kind: "compare", column: c.column, operator: c.operator as CompareOperator, other: c.other })
+        } else if (c.kind === "implies" && text(c.target) && (c.state === "null" || c.state === "not_null")) {
+            out.push({ kind: "implies", column: c.column, when: text(c.when) ? c.when : null, target: c.target, state: c.state })
+        } else if (c.kind === "unique") out.push({ kind: "unique", column: c.column })
+        else if (c.kind === "allowed" && Array.isArray(c.values)) {
+            out.push({ kind: "allowed", column: c.column, values: c.values.filter(text) })
+        }
+    }
+    return out
+}
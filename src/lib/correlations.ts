@@ -0,0 +1,215 @@
+import { type Row, isMissing, toKey, toNumber } from "./tabular"
+import type { ColumnKind } from "./quality-metrics"
+
+export type CorrelationMethod = "pearson" | "cramers-v" | "correlation-ratio"
+
+export interface CorrelationMatrix {
+    columns: string[]
+    // values[i][j]; null where a pair has too few complete observations
+    values: (number | null)[][]
+}
+
+export interface CorrelationComparison {
+    columns: string[]
+    methods: CorrelationMethod[][]
+    source: CorrelationMatrix
+    synthetic: CorrelationMatrix
+    // |source - synthetic| per pair
+    difference: CorrelationMatrix
+    meanAbsoluteDifference: number
+    // 0-100, derived from the mean absolute difference
+    preservation: number
+}
+
+interface EncodedColumn {
+    kind: ColumnKind
+    // numeric: the value or NaN; categorical: category code or -1
+    values: Float64Array | Int32Array
+    levels: number
+}
+
+const MIN_PAIRS = 3
+
+function encode(rows: Row[], column: string, kind: ColumnKind): EncodedColumn {
+    if (kind === "numeric") {
+        const values = new Float64Array(rows.length)
+        rows.forEach((r, i) => {
+            const n = toNumber(r[column])
+            values[i] = n === null ? NaN : n
+        })
+        return { kind, values, levels: 0 }
+    }
+
+    const codes = new Map<string, number>()
+    const values = new Int32Array(rows.length)
+    rows.forEach((r, i) => {
+        const v = r[column]
+        if (isMissing(v)) {
+            values[i] = -1
+            return
+        }
+        const k = toKey(v)
+        let code = codes.get(k)
+        if (code === undefined) {
+            code = codes.size
+            codes.set(k, code)
+        }
+        values[i] = code
+    })
+    return { kind, values, levels: codes.size }
+}
+
+const present = (col: EncodedColumn, i: number) =>
+    col.kind === "numeric" ? !Number.isNaN(col.values[i]) : col.values[i] >= 0
+
+function pearson(x: EncodedColumn, y: EncodedColumn): number | null {
+    let n = 0
+    let sx = 0
+    let sy = 0
+    let sxx = 0
+    let syy = 0
+    let sxy = 0
+    for (let i = 0; i < x.values.length; i++) {
+        if (!present(x, i) || !present(y, i)) continue
+        const a = x.values[i]
+        const b = y.values[i]
+        n++
+        sx += a
+        sy += b
+        sxx += a * a
+        syy += b * b
+        sxy += a * b
+    }
+    if (n < MIN_PAIRS) return null
+    const cov = sxy - (sx * sy) / n
+    const vx = sxx - (sx * sx) / n
+    const vy = syy - (sy * sy) / n
+    if (vx <= 0 || vy <= 0) return 0
+    return Math.max(-1, Math.min(1, cov / Math.sqrt(vx * vy)))
+}
+
+// Only the observed pairs are counted (in a Map, not a levels(x) × levels(y) table), so columns with
+// tens of thousands of distinct values stay linear in the row count. Empty cells still count towards
+// chi-squared: summed over every cell, (O - E)² / E = n · Σ O² / (R · C) - n, so only non-zero O matter.
+function cramersV(x: EncodedColumn, y: EncodedColumn): number | null {
+    const cells = new Map<number, number>()
+    const rowTotals = new Float64Array(x.levels)
+    const colTotals = new Float64Array(y.levels)
+    let n = 0
+    for (let i = 0; i < x.values.length; i++) {
+        if (!present(x, i) || !present(y, i)) continue
+        const a = x.values[i]
+        const b = y.values[i]
+        const cell = a * y.levels + b
+        cells.set(cell, (cells.get(cell) ?? 0) + 1)
+        rowTotals[a]++
+        colTotals[b]++
+        n++
+    }
+    if (n < MIN_PAIRS) return null
+
+    const r = rowTotals.filter((t) => t > 0).length
+    const c = colTotals.filter((t) => t > 0).length
+    const k = Math.min(r, c) - 1
+    if (k <= 0) return 0
+
+    let sum = 0
+    for (const [cell, observed] of cells) {
+        const a = Math.floor(cell / y.levels)
+        const b = cell % y.levels
+        sum += (observed * observed) / (rowTotals[a] * colTotals[b])
+    }
+    const chi2 = Math.max(0, n * sum - n)
+    return Math.min(1, Math.sqrt(chi2 / n / k))
+}
+
+// Correlation ratio (eta) of a numeric column grouped by a categorical one
+function correlationRatio(category: EncodedColumn, numeric: EncodedColumn): number | null {
+    const sums = new Float64Array(category.levels)
+    const counts = new Float64Array(category.levels)
+    let n = 0
+    let total = 0
+    for (let i = 0; i < numeric.values.length; i++) {
+        if (!present(category, i) || !present(numeric, i)) continue
+        const g = category.values[i]
+        sums[g] += numeric.values[i]
+        counts[g]++
+        total += numeric.values[i]
+        n++
+    }
+    if (n < MIN_PAIRS) return null
+
+    const grand = total / n
+    let between = 0
+    for (let g = 0; g < category.levels; g++) {
+        if (counts[g]) between += counts[g] * (sums[g] / counts[g] - grand) ** 2
+    }
+    let within = 0
+    for (let i = 0; i < numeric.values.length; i++) {
+        if (!present(category, i) || !present(numeric, i)) continue
+        within += (numeric.values[i] - grand) ** 2
+    }
+    return within > 0 ? Math.min(1, Math.sqrt(between / within)) : 0
+}
+
+function methodFor(a: ColumnKind, b: ColumnKind): CorrelationMethod {
+    if (a === "numeric" && b === "numeric") return "pearson"
+    if (a === "categorical" && b === "categorical") return "cramers-v"
+    return "correlation-ratio"
+}
+
+function correlate(x: EncodedColumn, y: EncodedColumn): number | null {
+    const method = methodFor(x.kind, y.kind)
+    if (method === "pearson") return pearson(x, y)
+    if (method === "cramers-v") return cramersV(x, y)
+    return x.kind === "categorical" ? correlationRatio(x, y) : correlationRatio(y, x)
+}
+
+export function computeCorrelationMatrix(rows: Row[], columns: { column: string; kind: ColumnKind }[]): CorrelationMatrix {
+    const encoded = columns.map((c) => encode(rows, c.column, c.kind))
+    const values = columns.map(() => columns.map(() => null as number | null))
+    for (let i = 0; i < columns.length; i++) {
+        values[i][i] = 1
+        for (let j = i + 1; j < columns.length; j++) {
+            const v = correlate(encoded[i], encoded[j])
+            values[i][j] = v
+            values[j][i] = v
+        }
+    }
+    return { columns: columns.map((c) => c.column), values }
+}
+
+export function compareCorrelations(
+    source: Row[],
+    synthetic: Row[],
+    columns: { column: string; kind: ColumnKind }[],
+): CorrelationComparison {
+    const src = computeCorrelationMatrix(source, columns)
+    const syn = computeCorrelationMatrix(synthetic, columns)
+
+    let sum = 0
+    let pairs = 0
+    const difference = src.values.map((row, i) =>
+        row.map((v, j) => {
+            const w = syn.values[i][j]
+            if (v === null || w === null) return null
+            const d = Math.abs(v - w)
+            if (i < j) {
+                sum += d
+                pairs++
+            }
+            return d
+        }),
+    )
+
+    const meanAbsoluteDifference = pairs ? sum / pairs : 0
+    return {
+        columns: src.columns,
+        methods: columns.map((a) => columns.map((b) => methodFor(a.kind, b.kind))),
+        source: src,
+        synthetic: syn,
+        difference: { columns: src.columns, values: difference },
+        meanAbsoluteDifference,
+        preservation: Math.max(0, (1 - meanAbsoluteDifference) * 100),
+    }
+}
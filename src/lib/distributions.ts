@@ -0,0 +1,98 @@
+import { type Row, isMissing, toKey, toNumber } from "./tabular"
+
+export interface HistogramBin {
+    start: number
+    end: number
+    // Share of each dataset's present values falling in the bin (0-1)
+    source: number
+    synthetic: number
+}
+
+export interface CategoryFrequency {
+    category: string
+    source: number
+    synthetic: number
+}
+
+export const OTHER_CATEGORY = "Other"
+
+function numbers(rows: Row[], column: string): number[] {
+    const out: number[] = []
+    for (const r of rows) {
+        const n = toNumber(r[column])
+        if (n !== null) out.push(n)
+    }
+    return out
+}
+
+// Histogram over a shared set of equal-width bins so both datasets overlay directly
+export function buildHistogram(source: Row[], synthetic: Row[], column: string, binCount = 20): HistogramBin[] {
+    const a = numbers(source, column)
+    const b = numbers(synthetic, column)
+    const all = a.length ? a : b
+    if (!all.length) return []
+
+    let min = Infinity
+    let max = -Infinity
+    for (const v of [...a, ...b]) {
+        if (v < min) min = v
+        if (v > max) max = v
+    }
+    if (min === max) {
+        return [{ start: min, end: max, source: a.length ? 1 : 0, synthetic: b.length ? 1 : 0 }]
+    }
+
+    const width = (max - min) / binCount
+    const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+        start: min + i * width,
+        end: min + (i + 1) * width,
+        source: 0,
+        synthetic: 0,
+    }))
+    const index = (v: number) => Math.min(binCount - 1, Math.floor((v - min) / width))
+    for (const v of a) bins[index(v)].source += 1 / a.length
+    for (const v of b) bins[index(v)].synthetic += 1 / b.length
+    return bins
+}
+
+function counts(rows: Row[], column: string): { counts: Map<string, number>; total: number } {
+    const out = new Map<string, number>()
+    let total = 0
+    for (const r of rows) {
+        const v = r[column]
+        if (isMissing(v)) continue
+        const k = toKey(v)
+        out.set(k, (out.get(k) ?? 0) + 1)
+        total++
+    }
+    return { counts: out, total }
+}
+
+// Category shares for both datasets, most frequent source categories first; the tail folds into "Other"
+export function buildCategoryFrequencies(
+    source: Row[],
+    synthetic: Row[],
+    column: string,
+    maxCategories = 12,
+): CategoryFrequency[] {
+    const a = counts(source, column)
+    const b = counts(synthetic, column)
+    const keys = new Set([...a.counts.keys(), ...b.counts.keys()])
+    const share = (c: { counts: Map<string, number>; total: number }, k: string) =>
+        c.total ? (c.counts.get(k) ?? 0) / c.total : 0
+
+    const rows = Array.from(keys)
+        .map((category) => ({ category, source: share(a, category), synthetic: share(b, category) }))
+        .sort((x, y) => y.source - x.source || y.synthetic - x.synthetic)
+
+    if (rows.length <= maxCategories) return rows
+
+    const head = rows.slice(0, maxCategories - 1)
+    const tail = rows.slice(maxCategories - 1)
+    head.push({
+        category: OTHER_CATEGORY,
+        source: tail.reduce((s, r) => s + r.source, 0),
+        synthetic: tail.reduce((s, r) => s + r.synthetic, 0),
+    })
+    return head
+}
@@ -0,0 +1,287 @@
+import type { SchemaElement } from "hyparquet-writer"
+import { type Row, collectColumns, isMissing, toKey, toNumber } from "./tabular"
+import { type ColumnSchema, inferSchema } from "./schema"
+
+// File formats for generated data. The browser uses these for results it holds in memory and the
+// simulation backend uses them for /model/download, so both produce the same files. Column types
+// come from the source schema: numbers stay numbers and dates become real dates wherever the
+// format has them, instead of everything being written out as text.
+
+export type ExportFormat = "csv" | "xlsx" | "parquet" | "json" | "ndjson" | "sql"
+
+export interface ExportFormatInfo {
+    value: ExportFormat
+    label: string
+    description: string
+    mimeType: string
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+    { value: "csv", label: "CSV", description: "Plain text, opens anywhere", mimeType: "text/csv;charset=utf-8" },
+    {
+        value: "xlsx",
+        label: "Excel workbook",
+        description: "Typed cells for spreadsheet users",
+        mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    },
+    { value: "parquet", label: "Parquet", description: "Columnar, typed, for data pipelines", mimeType: "application/vnd.apache.parquet" },
+    { value: "json", label: "JSON", description: "One array of row objects", mimeType: "application/json;charset=utf-8" },
+    { value: "ndjson", label: "NDJSON", description: "One JSON object per line, for streaming loaders", mimeType: "application/x-ndjson;charset=utf-8" },
+    { value: "sql", label: "SQL script", description: "CREATE TABLE and INSERT statements", mimeType: "application/sql;charset=utf-8" },
+]
+
+export function isExportFormat(value: string): value is ExportFormat {
+    return EXPORT_FORMATS.some((f) => f.value === value)
+}
+
+export function exportMimeType(format: ExportFormat) {
+    return EXPORT_FORMATS.find((f) => f.value === format)!.mimeType
+}
+
+// Text formats can be written a chunk of rows at a time; workbooks and Parquet files are built whole
+export function isTextFormat(format: ExportFormat): format is "csv" | "json" | "ndjson" | "sql" {
+    return format !== "xlsx" && format !== "parquet"
+}
+
+// Rows serialized per chunk, so a large export is many small strings instead of one huge one
+const EXPORT_CHUNK_ROWS = 1000
+const SQL_INSERT_ROWS = 500
+export const SQL_TABLE_NAME = "synthetic_data"
+
+// ---- Column types ----------------------------------------------------------
+export type ValueKind = "integer" | "float" | "datetime" | "date" | "string"
+
+export interface ExportColumn {
+    name: string
+    kind: ValueKind
+}
+
+// Facts about the run written next to the rows (e.g. the privacy budget): a "Metadata" sheet in workbooks,
+// key/value metadata in Parquet and leading comments in SQL. CSV, JSON and NDJSON have nowhere to put them.
+export type ExportMetadata = Record<string, string>
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/
+const HAS_ZONE = /(Z|[+-]\d{2}:?\d{2})$/i
+
+// Dates are read as UTC so the same value exports the same way in every timezone
+function parseDate(value: unknown): Date | null {
+    if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value
+    const text = toKey(value)
+    if (!text) return null
+    const dateOnly = DATE_ONLY.exec(text)
+    if (dateOnly) return new Date(Date.UTC(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3])))
+    const iso = /^\d{4}-\d{2}-\d{2}[T ]\d/.test(text) ? text.replace(" ", "T") + (HAS_ZONE.test(text) ? "" : "Z") : text
+    const ms = Date.parse(iso)
+    return Number.isNaN(ms) ? null : new Date(ms)
+}
+
+function every(rows: Row[], column: string, test: (value: unknown) => boolean) {
+    return rows.every((r) => isMissing(r[column]) || test(r[column]))
+}
+
+// A typed kind is only used when every present value converts; anything else is exported as text
+function kindFor(rows: Row[], column: string, type: ColumnSchema["type"] | undefined): ValueKind {
+    switch (type) {
+        case "numeric":
+            if (!every(rows, column, (v) => toNumber(v) !== null)) return "string"
+            return every(rows, column, (v) => Number.isSafeInteger(toNumber(v))) ? "integer" : "float"
+        case "datetime":
+        case "date":
+            return every(rows, column, (v) => parseDate(v) !== null) ? type : "string"
+        default:
+            return "string"
+    }
+}
+
+// Column order follows the rows; types follow the schema, or are inferred from the rows without one
+export function exportColumns(rows: Row[], schema?: Pick<ColumnSchema, "name" | "type">[] | null): ExportColumn[] {
+    const names = collectColumns(rows)
+    const types = new Map((schema ?? inferSchema({ columns: names, rows })).map((c) => [c.name, c.type]))
+    return names.map((name) => ({ name, kind: kindFor(rows, name, types.get(name)) }))
+}
+
+export function typedValue(value: unknown, kind: ValueKind): number | string | Date | null {
+    if (isMissing(value)) return null
+    switch (kind) {
+        case "integer":
+        case "float":
+            return toNumber(value)
+        case "datetime":
+        case "date":
+            return parseDate(value)
+        default:
+            return toKey(value)
+    }
+}
+
+// Dates as text: ISO for JSON, and a form every SQL dialect accepts
+function formatDate(date: Date, kind: "date" | "datetime", style: "iso" | "sql") {
+    const iso = date.toISOString()
+    if (kind === "date") return iso.slice(0, 10)
+    return style === "iso" ? iso : iso.slice(0, 23).replace("T", " ")
+}
+
+function jsonRow(row: Row, columns: ExportColumn[]) {
+    const out: Record<string, number | string | null> = {}
+    for (const { name, kind } of columns) {
+        const value = typedValue(row[name], kind)
+        out[name] = value instanceof Date ? formatDate(value, kind as "date" | "datetime", "iso") : value
+    }
+    return out
+}
+
+// ---- Text formats ----------------------------------------------------------
+function escapeCell(val: unknown): string {
+    if (val === null || val === undefined) return ""
+    // Keep numbers as-is, stringify objects/arrays, and coerce others to string
+    const raw = typeof val === "object" ? JSON.stringify(val) : String(val)
+
+    // Escape quotes by doubling them, wrap in quotes if needed
+    const withEscapedQuotes = raw.replace(/"/g, '""')
+    const needsQuotes = /[",\n\r]/.test(withEscapedQuotes)
+    return needsQuotes ? `"${withEscapedQuotes}"` : withEscapedQuotes
+}
+
+export function csvLine(row: Row, headers: string[]): string {
+    return headers.map((h) => escapeCell(row[h])).join(",")
+}
+
+export function rowsToCsv(rows: Row[]): string {
+    if (!rows.length) return ""
+
+    // Collect a stable header set across all rows
+    const headers = collectColumns(rows)
+
+    // Use CRLF for wide compatibility (Excel, etc.)
+    return [headers.join(","), ...rows.map((r) => csvLine(r, headers))].join("\r\n")
+}
+
+const SQL_TYPES: Record<ValueKind, string> = {
+    integer: "BIGINT",
+    float: "DOUBLE PRECISION",
+    datetime: "TIMESTAMP",
+    date: "DATE",
+    string: "TEXT",
+}
+
+function sqlIdentifier(name: string) {
+    return `"${name.replace(/"/g, '""')}"`
+}
+
+function sqlLiteral(value: unknown, kind: ValueKind): string {
+    const typed = typedValue(value, kind)
+    if (typed === null) return "NULL"
+    if (typeof typed === "number") return String(typed)
+    if (typed instanceof Date) return `'${formatDate(typed, kind as "date" | "datetime", "sql")}'`
+    return `'${typed.replace(/'/g, "''")}'`
+}
+
+function* sqlChunks(rows: Row[], columns: ExportColumn[], table: string, metadata: ExportMetadata): Generator<string> {
+    const names = columns.map((c) => sqlIdentifier(c.name)).join(", ")
+    const comments = Object.entries(metadata).map(([key, value]) => `-- ${key}: ${value.replace(/\s+/g, " ")}\n`)
+    if (comments.length) yield comments.join("") + "\n"
+    yield `CREATE TABLE ${sqlIdentifier(table)} (\n${columns.map((c) => `    ${sqlIdentifier(c.name)} ${SQL_TYPES[c.kind]}`).join(",\n")}\n);\n`
+    for (let i = 0; i < rows.length; i += SQL_INSERT_ROWS) {
+        const values = rows
+            .slice(i, i + SQL_INSERT_ROWS)
+            .map((r) => `    (${columns.map((c) => sqlLiteral(r[c.name], c.kind)).join(", ")})`)
+        yield `\nINSERT INTO ${sqlIdentifier(table)} (${names}) VALUES\n${values.join(",\n")};\n`
+    }
+}
+
+// The file contents a chunk of rows at a time, for building a Blob or streaming a response
+export function* exportTextChunks(
+    rows: Row[],
+    columns: ExportColumn[],
+    format: "csv" | "json" | "ndjson" | "sql",
+    metadata: ExportMetadata = {},
+    table = SQL_TABLE_NAME,
+): Generator<string> {
+    if (format === "sql") {
+        yield* sqlChunks(rows, columns, table, metadata)
+        return
+    }
+    const headers = columns.map((c) => c.name)
+    if (format === "csv") yield headers.join(",")
+    if (format === "json") yield "["
+    for (let i = 0; i < rows.length; i += EXPORT_CHUNK_ROWS) {
+        const chunk = rows.slice(i, i + EXPORT_CHUNK_ROWS)
+        if (format === "csv") {
+            // CSV keeps values exactly as generated; it has no types to convert to. CRLF for Excel.
+            yield chunk.map((r) => "\r\n" + csvLine(r, headers)).join("")
+        } else if (format === "ndjson") {
+            yield chunk.map((r) => JSON.stringify(jsonRow(r, columns)) + "\n").join("")
+        } else {
+            yield (i ? "," : "") + chunk.map((r) => "\n  " + JSON.stringify(jsonRow(r, columns))).join(",")
+        }
+    }
+    if (format === "json") yield "\n]\n"
+}
+
+// ---- Binary formats --------------------------------------------------------
+// The writers are loaded on first use so they stay out of the main bundle
+
+async function buildXlsx(rows: Row[], columns: ExportColumn[], metadata: ExportMetadata): Promise<Uint8Array> {
+    const { default: ExcelJS } = await import("exceljs")
+    const workbook = new ExcelJS.Workbook()
+    const sheet = workbook.addWorksheet("Synthetic data", { views: [{ state: "frozen", ySplit: 1 }] })
+    sheet.columns = columns.map((c) => ({
+        header: c.name,
+        key: c.name,
+        width: Math.min(40, Math.max(12, c.name.length + 2)),
+        style: c.kind === "date" ? { numFmt: "yyyy-mm-dd" } : c.kind === "datetime" ? { numFmt: "yyyy-mm-dd hh:mm:ss" } : {},
+    }))
+    sheet.getRow(1).font = { bold: true }
+    for (const row of rows) sheet.addRow(columns.map((c) => typedValue(row[c.name], c.kind)))
+    const entries = Object.entries(metadata)
+    if (entries.length) {
+        const info = workbook.addWorksheet("Metadata")
+        info.columns = [
+            { header: "Key", key: "key", width: 24 },
+            { header: "Value", key: "value", width: 40 },
+        ]
+        info.getRow(1).font = { bold: true }
+        for (const [key, value] of entries) info.addRow([key, value])
+    }
+    return new Uint8Array(await workbook.xlsx.writeBuffer())
+}
+
+function parquetElement({ name, kind }: ExportColumn): SchemaElement {
+    const repetition_type = "OPTIONAL"
+    switch (kind) {
+        case "integer":
+            return { name, type: "INT64", repetition_type }
+        case "float":
+            return { name, type: "DOUBLE", repetition_type }
+        case "datetime":
+            return { name, type: "INT64", converted_type: "TIMESTAMP_MILLIS", repetition_type }
+        case "date":
+            return { name, type: "INT32", converted_type: "DATE", repetition_type }
+        default:
+            return { name, type: "BYTE_ARRAY", converted_type: "UTF8", repetition_type }
+    }
+}
+
+async function buildParquet(rows: Row[], columns: ExportColumn[], metadata: ExportMetadata): Promise<Uint8Array> {
+    const { parquetWriteBuffer } = await import("hyparquet-writer")
+    const schema: SchemaElement[] = [{ name: "root", num_children: columns.length }, ...columns.map(parquetElement)]
+    const columnData = columns.map((c) => ({
+        name: c.name,
+        data: rows.map((r) => {
+            const value = typedValue(r[c.name], c.kind)
+            // INT64 columns are written from bigints
+            return c.kind === "integer" && typeof value === "number" ? BigInt(value) : value
+        }),
+    }))
+    const kvMetadata = Object.entries(metadata).map(([key, value]) => ({ key, value }))
+    return new Uint8Array(parquetWriteBuffer({ columnData, schema, ...(kvMetadata.length ? { kvMetadata } : {}) }))
+}
+
+export function buildBinaryExport(
+    rows: Row[],
+    columns: ExportColumn[],
+    format: "xlsx" | "parquet",
+    metadata: ExportMetadata = {},
+): Promise<Uint8Array> {
+    return format === "xlsx" ? buildXlsx(rows, columns, metadata) : buildParquet(rows, columns, metadata)
+}
@@ -0,0 +1,83 @@
+import type { Row } from "./tabular"
+import type { ColumnSchema } from "./schema"
+import { downloadResults, resultsDownloadUrl } from "./api-client"
+import {
+    type ExportFormat,
+    type ExportMetadata,
+    buildBinaryExport,
+    exportColumns,
+    exportMimeType,
+    exportTextChunks,
+    isTextFormat,
+} from "./export-formats"
+
+export type { ExportFormat, ExportMetadata } from "./export-formats"
+
+function clickDownload(href: string, filename: string) {
+    const a = document.createElement("a")
+    a.href = href
+    a.download = filename
+    document.body.appendChild(a)
+    a.click()
+    a.remove()
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob)
+    clickDownload(url, filename)
+    URL.revokeObjectURL(url)
+}
+
+// Column types come from `schema` (the source schema), or are inferred from the rows without one
+export async function downloadRows(
+    rows: Row[],
+    format: ExportFormat,
+    fileBase: string,
+    schema?: ColumnSchema[] | null,
+    metadata: ExportMetadata = {},
+) {
+    if (!rows.length) throw new Error("No generated data available for download")
+    const columns = exportColumns(rows, schema)
+    const parts: BlobPart[] = isTextFormat(format)
+        ? Array.from(exportTextChunks(rows, columns, format, metadata))
+        : [(await buildBinaryExport(rows, columns, format, metadata)) as Uint8Array<ArrayBuffer>]
+    downloadBlob(new Blob(parts, { type: exportMimeType(format) }), `${fileBase}.${format}`)
+}
+
+// Not in TypeScript's DOM lib yet; Chromium-only
+type SaveFilePicker = (options: {
+    suggestedName?: string
+    types?: { description: string; accept: Record<string, string[]> }[]
+}) => Promise<FileSystemFileHandle>
+
+// Saves rows that are kept on the backend without loading them into the page. With the File System
+// Access API the response body is piped straight into the chosen file; elsewhere the browser's own
+// download manager streams /model/download to disk. Dropping copies needs the backend's confirmation
+// header, which a plain link can't read, so without the picker that download is fetched into memory.
+export async function downloadJobResults(jobId: string, format: ExportFormat, fileBase: string, dropCopies = false) {
+    const filename = `${fileBase}.${format}`
+    const picker = window as Window & { showSaveFilePicker?: SaveFilePicker }
+    if (!picker.showSaveFilePicker) {
+        if (!dropCopies) {
+            clickDownload(resultsDownloadUrl(jobId, format), filename)
+            return
+        }
+        const body = await downloadResults(jobId, format, {}, true)
+        downloadBlob(new Blob([await new Response(body).arrayBuffer()], { type: exportMimeType(format) }), filename)
+        return
+    }
+
+    let handle: FileSystemFileHandle
+    try {
+        handle = await picker.showSaveFilePicker({
+            suggestedName: filename,
+            types: [{ description: format.toUpperCase(), accept: { [exportMimeType(format).split(";")[0]]: [`.${format}`] } }],
+        })
+    } catch (e) {
+        // The user closed the picker
+        if (e instanceof DOMException && e.name === "AbortError") return
+        throw e
+    }
+    const body = await downloadResults(jobId, format, {}, dropCopies)
+    await body.pipeTo(await handle.createWritable())
+}
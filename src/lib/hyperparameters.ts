@@ -0,0 +1,72 @@
+import type { PrivacySupport } from "./api-client"
+import { type PrivacyBudget, resolveBudget } from "./privacy-budget"
+
+// Sent with /model/train
+export interface TrainingHyperparameters {
+    epochs: number
+    // Differential privacy target for DP-SGD; omitted when the run trains without DP
+    dp_epsilon?: number
+    dp_delta?: number
+}
+
+// Sent with /model/generate
+export interface SamplingHyperparameters {
+    temperature: number
+}
+
+export type EffectiveParameters = Record<string, number | string | boolean>
+
+interface ModelTuning {
+    // Epoch range the quality slider (25-100%) maps onto
+    epochs: [number, number]
+    temperature: [number, number]
+}
+
+const DEFAULT_TUNING: ModelTuning = { epochs: [100, 800], temperature: [0.6, 1.4] }
+
+// Keyed by backend model identifier (ModelConfig.modelName)
+const MODEL_TUNING: Record<string, ModelTuning> = {
+    adsgan: { epochs: [100, 1000], temperature: [0.6, 1.4] },
+    ctgan: { epochs: [50, 500], temperature: [0.7, 1.3] },
+    dpgan: { epochs: [100, 600], temperature: [0.7, 1.3] },
+    text_finetune: { epochs: [1, 5], temperature: [0.7, 1.5] },
+}
+
+const QUALITY_MIN = 25
+
+function lerp([lo, hi]: [number, number], t: number) {
+    return lo + (hi - lo) * Math.max(0, Math.min(1, t))
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits))
+
+export function getModelTuning(modelName: string): ModelTuning {
+    return MODEL_TUNING[modelName] ?? DEFAULT_TUNING
+}
+
+export function toTrainingHyperparameters(
+    model: { modelName: string; privacySupport: PrivacySupport },
+    params: { quality: number; privacyBudget?: PrivacyBudget | null },
+): TrainingHyperparameters {
+    const tuning = getModelTuning(model.modelName)
+    const epochs = Math.round(lerp(tuning.epochs, (params.quality - QUALITY_MIN) / (100 - QUALITY_MIN)))
+    // The parameters step fills in the budget; the fallback only covers runs that skipped it
+    const budget = resolveBudget(model.privacySupport, params.privacyBudget, 0)
+    if (!budget) return { epochs }
+    return { epochs, dp_epsilon: budget.epsilon, dp_delta: budget.delta }
+}
+
+export function toSamplingHyperparameters(
+    model: { modelName: string },
+    params: { diversity: number },
+): SamplingHyperparameters {
+    return { temperature: round(lerp(getModelTuning(model.modelName).temperature, params.diversity / 100), 2) }
+}
+
+export const PARAMETER_LABELS: Record<string, string> = {
+    epochs: "Training epochs",
+    dp_epsilon: "DP target ε",
+    dp_delta: "DP target δ",
+    temperature: "Sampling temperature",
+    holdout_rows: "Rows held out for privacy evaluation",
+}
@@ -0,0 +1,118 @@
+import type { Row } from "./tabular"
+import type { ColumnSchema } from "./schema"
+import type { DatasetProfile } from "./profile"
+import type { EffectiveParameters } from "./hyperparameters"
+import type { QualityMetrics, QualityRating } from "./quality-metrics"
+import type { PrivacyBudget } from "./privacy-budget"
+import type { GenerationParameters, ModelConfig, UploadedFile } from "@/components/synthetic-data-platform"
+
+// Past generation runs, kept in the browser's IndexedDB. Summaries and outputs live in separate
+// stores so listing the history doesn't load every generated dataset into memory.
+
+export type JobRecordStatus = "running" | "completed" | "cancelled" | "failed"
+
+export interface JobMetrics extends QualityMetrics {
+    overall: number
+    rating: QualityRating
+}
+
+export interface JobRecord {
+    jobId: string
+    createdAt: string
+    finishedAt?: string
+    status: JobRecordStatus
+    // Everything needed to clone the run, minus the file contents (see JobOutput.source)
+    file: Omit<UploadedFile, "content"> & { dataset_id?: string }
+    // Source profile from the Analyze step, the baseline for the results comparison
+    profile?: DatasetProfile | null
+    schema: ColumnSchema[] | null
+    model: ModelConfig
+    parameters: GenerationParameters
+    requestedParameters?: EffectiveParameters
+    effectiveParameters?: EffectiveParameters
+    // Differential privacy budget training spent, as reported by the backend
+    privacySpent?: PrivacyBudget
+    // Rows actually returned by the backend
+    sampleCount?: number
+    // Only a sample of the rows is stored (JobOutput.synthetic); the rest stay on the backend
+    paged?: boolean
+    metrics?: JobMetrics
+}
+
+export interface JobOutput {
+    jobId: string
+    // Uploaded file contents, for the results comparison and for cloning the run
+    source: string
+    // All generated rows, or a sample of a paged result
+    synthetic: Row[] | null
+}
+
+const DB_NAME = "spoof"
+const DB_VERSION = 1
+const JOBS = "jobs"
+const OUTPUTS = "outputs"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === "undefined") return reject(new Error("IndexedDB is not available"))
+        const req = indexedDB.open(DB_NAME, DB_VERSION)
+        req.onupgradeneeded = () => {
+            const db = req.result
+            if (!db.objectStoreNames.contains(JOBS)) db.createObjectStore(JOBS, { keyPath: "jobId" })
+            if (!db.objectStoreNames.contains(OUTPUTS)) db.createObjectStore(OUTPUTS, { keyPath: "jobId" })
+        }
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error ?? new Error("Failed to open job history"))
+    }).catch((e) => {
+        // Let a later call retry (e.g. after the user closes another tab blocking an upgrade)
+        dbPromise = null
+        throw e
+    })
+    return dbPromise
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error ?? new Error("Job history request failed"))
+    })
+}
+
+async function withStore<T>(name: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) {
+    const db = await openDb()
+    return promisify(fn(db.transaction(name, mode).objectStore(name)))
+}
+
+export async function listJobs(): Promise<JobRecord[]> {
+    const jobs = await withStore<JobRecord[]>(JOBS, "readonly", (store) => store.getAll())
+    return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getJob(jobId: string): Promise<JobRecord | undefined> {
+    return withStore<JobRecord | undefined>(JOBS, "readonly", (store) => store.get(jobId))
+}
+
+export async function putJob(record: JobRecord) {
+    await withStore(JOBS, "readwrite", (store) => store.put(record))
+}
+
+// Merge into an existing record; unknown ids are ignored
+export async function updateJob(jobId: string, patch: Partial<Omit<JobRecord, "jobId">>) {
+    const existing = await getJob(jobId)
+    if (existing) await putJob({ ...existing, ...patch })
+}
+
+export async function getJobOutput(jobId: string): Promise<JobOutput | undefined> {
+    return withStore<JobOutput | undefined>(OUTPUTS, "readonly", (store) => store.get(jobId))
+}
+
+export async function putJobOutput(output: JobOutput) {
+    await withStore(OUTPUTS, "readwrite", (store) => store.put(output))
+}
+
+export async function deleteJob(jobId: string) {
+    await withStore(JOBS, "readwrite", (store) => store.delete(jobId))
+    await withStore(OUTPUTS, "readwrite", (store) => store.delete(jobId))
+}
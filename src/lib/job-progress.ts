@@ -0,0 +1,229 @@
+import { getJobStatus } from "./api-client"
+import { API_BASE_PATH } from "./config"
+
+// Follows a backend job until it finishes. Progress is pushed over Server-Sent Events from
+// /model/events/:id; when the stream can't be opened (or keeps dropping) we fall back to polling
+// /model/status/:id with exponential backoff and jitter.
+
+export type JobPhase = "preprocessing" | "training" | "generation"
+
+const JOB_PHASES: readonly JobPhase[] = ["preprocessing", "training", "generation"]
+
+export type ProgressChannel = "events" | "polling"
+
+export interface JobProgressEvent {
+    phase: JobPhase
+    status: string
+    percent: number
+    epoch?: number
+    epochs?: number
+    loss?: number
+    // Generation: rows produced so far out of the requested total
+    rows?: number
+    total?: number
+    message?: string
+}
+
+export type WatchResult = "completed" | "cancelled" | "aborted"
+
+export interface WatchJobOptions {
+    jobId: string
+    // Events for earlier phases are ignored, so a stale "completed" from training can't end generation;
+    // one from a later phase completes the watch
+    phases: JobPhase[]
+    signal: AbortSignal
+    onProgress?: (event: JobProgressEvent) => void
+    onLog?: (message: string) => void
+    onChannel?: (channel: ProgressChannel) => void
+    // Poll /model/status when the stream isn't available (default true)
+    pollingFallback?: boolean
+}
+
+// Consecutive stream errors (after the first event) before giving up on SSE
+const MAX_STREAM_ERRORS = 3
+const POLL_MIN_MS = 1000
+// Unchanged progress backs off to this
+const POLL_MAX_MS = 10000
+// Errors back off to this
+const POLL_ERROR_MAX_MS = 30000
+const MAX_POLL_ERRORS = 6
+
+// Resolves after `ms`, or as soon as the signal aborts
+export function delay(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve) => {
+        if (signal?.aborted) return resolve()
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort)
+            resolve()
+        }, ms)
+        const onAbort = () => {
+            clearTimeout(timer)
+            resolve()
+        }
+        signal?.addEventListener("abort", onAbort, { once: true })
+    })
+}
+
+// ±25% so many tabs polling the same backend don't line up
+function withJitter(ms: number) {
+    return Math.round(ms * (0.75 + Math.random() * 0.5))
+}
+
+function clampPercent(value: unknown) {
+    const n = Number(value ?? 0)
+    return Number.isFinite(n) ? Math.max(0, Math.min(100, n)) : 0
+}
+
+function optionalNumber(value: unknown) {
+    const n = Number(value)
+    return value === undefined || value === null || !Number.isFinite(n) ? undefined : n
+}
+
+function parsePhase(value: unknown): JobPhase | undefined {
+    return JOB_PHASES.find((phase) => phase === value)
+}
+
+function parseProgress(data: string, fallbackPhase: JobPhase): JobProgressEvent | null {
+    try {
+        const body = JSON.parse(data)
+        if (!body || typeof body.status !== "string") return null
+        return {
+            phase: parsePhase(body.phase) ?? fallbackPhase,
+            status: body.status.toLowerCase(),
+            percent: clampPercent(body.percent),
+            epoch: optionalNumber(body.epoch),
+            epochs: optionalNumber(body.epochs),
+            loss: optionalNumber(body.loss),
+            rows: optionalNumber(body.rows),
+            total: optionalNumber(body.total),
+            message: typeof body.message === "string" ? body.message : undefined,
+        }
+    } catch {
+        return null
+    }
+}
+
+// The event as seen by a watch on `phases`: as is for a watched phase, null for an earlier one, and
+// "completed" on the last watched phase once the job has moved past it (e.g. it is already generating
+// when a training watch starts after a refresh), whatever the later phase's own status
+function forPhases(event: JobProgressEvent, phases: JobPhase[]): JobProgressEvent | null {
+    if (phases.includes(event.phase)) return event
+    const last = phases[phases.length - 1]
+    if (JOB_PHASES.indexOf(event.phase) < JOB_PHASES.indexOf(last)) return null
+    return { phase: last, status: "completed", percent: 100 }
+}
+
+// Returns "completed"/"cancelled" for a terminal status, throws for a failed job, null otherwise
+function settle(event: JobProgressEvent): WatchResult | null {
+    if (event.status === "failed" || event.status === "error") {
+        throw new Error(event.message ?? "Job failed on server")
+    }
+    if (event.status === "cancelled") return "cancelled"
+    if (event.status === "completed") return "completed"
+    return null
+}
+
+function watchWithEvents(opts: WatchJobOptions): Promise<WatchResult | "unavailable"> {
+    const { jobId, phases, signal, onProgress, onLog } = opts
+    // Backends that don't report a phase are assumed to be in the last one being watched
+    const fallbackPhase = phases[phases.length - 1]
+    if (typeof EventSource === "undefined") return Promise.resolve("unavailable")
+    // An abort that already happened never fires the listener, and the stream would stay open
+    if (signal.aborted) return Promise.resolve("aborted")
+
+    return new Promise((resolve, reject) => {
+        const source = new EventSource(`${API_BASE_PATH}/model/events/${encodeURIComponent(jobId)}`)
+        let received = false
+        let errors = 0
+
+        const finish = (done: () => void) => {
+            source.close()
+            signal.removeEventListener("abort", onAbort)
+            done()
+        }
+        const onAbort = () => finish(() => resolve("aborted"))
+        signal.addEventListener("abort", onAbort, { once: true })
+
+        source.addEventListener("progress", (e) => {
+            received = true
+            const parsed = parseProgress((e as MessageEvent<string>).data, fallbackPhase)
+            const event = parsed && forPhases(parsed, phases)
+            if (!event) return
+            errors = 0
+            onProgress?.(event)
+            try {
+                const result = settle(event)
+                if (result) finish(() => resolve(result))
+            } catch (err) {
+                finish(() => reject(err))
+            }
+        })
+
+        source.addEventListener("log", (e) => {
+            received = true
+            try {
+                const { message } = JSON.parse((e as MessageEvent<string>).data)
+                if (typeof message === "string") onLog?.(message)
+            } catch {
+                // ignore malformed log lines
+            }
+        })
+
+        // CLOSED means the endpoint refused the stream (404, wrong content type); CONNECTING means it
+        // dropped and EventSource is retrying, which we allow a few times once events have flowed
+        source.onerror = () => {
+            if (source.readyState === EventSource.CLOSED || !received || ++errors >= MAX_STREAM_ERRORS) {
+                finish(() => resolve("unavailable"))
+            }
+        }
+    })
+}
+
+async function watchWithPolling(opts: WatchJobOptions): Promise<WatchResult> {
+    const { jobId, phases, signal, onProgress } = opts
+    const fallbackPhase = phases[phases.length - 1]
+    let waitMs = POLL_MIN_MS
+    let errors = 0
+    let lastPercent = -1
+
+    while (!signal.aborted) {
+        let event: JobProgressEvent
+        try {
+            const raw = await getJobStatus(jobId, { signal })
+            event = {
+                phase: parsePhase(raw.phase) ?? fallbackPhase,
+                status: raw.status.toLowerCase(),
+                percent: clampPercent(raw.percent),
+            }
+        } catch (e) {
+            if (signal.aborted) break
+            if (++errors >= MAX_POLL_ERRORS) {
+                throw new Error(`Too many polling errors: ${e instanceof Error ? e.message : String(e)}`)
+            }
+            await delay(withJitter(Math.min(POLL_ERROR_MAX_MS, POLL_MIN_MS * 2 ** errors)), signal)
+            continue
+        }
+
+        errors = 0
+        const watched = forPhases(event, phases)
+        if (watched) {
+            onProgress?.(watched)
+            const result = settle(watched)
+            if (result) return result
+        }
+        // Back off while nothing changes and snap back once it moves
+        waitMs = event.percent !== lastPercent ? POLL_MIN_MS : Math.min(POLL_MAX_MS, waitMs * 1.5)
+        lastPercent = event.percent
+        await delay(withJitter(waitMs), signal)
+    }
+    return "aborted"
+}
+
+export async function watchJob(opts: WatchJobOptions): Promise<WatchResult> {
+    opts.onChannel?.("events")
+    const result = await watchWithEvents(opts)
+    if (result !== "unavailable") return result
+    if (opts.signal.aborted || opts.pollingFallback === false) return "aborted"
+    opts.onChannel?.("polling")
+    return watchWithPolling(opts)
+}
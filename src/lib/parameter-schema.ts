@@ -0,0 +1,118 @@
+import type { PrivacySupport } from "./api-client"
+
+export type ParameterKey = "samples" | "privacy" | "quality" | "diversity"
+
+export const PARAMETER_KEYS: ParameterKey[] = ["samples", "privacy", "quality", "diversity"]
+
+export interface ParameterField {
+    key: ParameterKey
+    label: string
+    // "integer" renders a number input, "percent" a slider
+    type: "integer" | "percent"
+    min: number
+    max: number
+    step: number
+    default: number
+    required?: boolean
+    // Disabled fields are pinned to their default and can't be edited
+    disabled?: boolean
+    help?: string
+}
+
+export type ParameterValues = Record<ParameterKey, number>
+
+export type ParameterErrors = Partial<Record<ParameterKey, string>>
+
+const SAMPLES_FIELD: ParameterField = {
+    key: "samples",
+    label: "Samples",
+    type: "integer",
+    min: 100,
+    max: 100000,
+    step: 100,
+    default: 1000,
+    required: true,
+    help: "Number of synthetic rows to generate.",
+}
+
+const QUALITY_FIELD: ParameterField = {
+    key: "quality",
+    label: "Quality",
+    type: "percent",
+    min: 25,
+    max: 100,
+    step: 5,
+    default: 75,
+    help: "Longer training follows the source more closely but takes more time.",
+}
+
+const DIVERSITY_FIELD: ParameterField = {
+    key: "diversity",
+    label: "Diversity",
+    type: "percent",
+    min: 0,
+    max: 100,
+    step: 5,
+    default: 60,
+    help: "Higher values sample further from the most common patterns.",
+}
+
+// Shown disabled on models without differential privacy. DP-capable models take an explicit
+// epsilon/delta budget instead (see privacy-budget.ts), so the schema leaves privacy out for them.
+const PRIVACY_OFF_FIELD: ParameterField = {
+    key: "privacy",
+    label: "Privacy",
+    type: "percent",
+    min: 0,
+    max: 0,
+    step: 5,
+    default: 0,
+    disabled: true,
+    help: "This model does not support differential privacy.",
+}
+
+// Used when the catalog doesn't ship a schema for a model
+export function defaultParameterSchema(privacySupport: PrivacySupport): ParameterField[] {
+    return privacySupport === "none"
+        ? [SAMPLES_FIELD, PRIVACY_OFF_FIELD, QUALITY_FIELD, DIVERSITY_FIELD]
+        : [SAMPLES_FIELD, QUALITY_FIELD, DIVERSITY_FIELD]
+}
+
+// A percent privacy field in a catalog schema is superseded by the budget controls on DP-capable models
+export function getParameterSchema(model: { parameterSchema?: ParameterField[]; privacySupport: PrivacySupport }) {
+    if (!model.parameterSchema?.length) return defaultParameterSchema(model.privacySupport)
+    if (model.privacySupport === "none") return model.parameterSchema
+    return model.parameterSchema.filter((field) => field.key !== "privacy")
+}
+
+// Pin disabled fields, clamp the rest into range, and fill anything missing from defaults
+export function normalizeParameters(schema: ParameterField[], values: Partial<ParameterValues>): Partial<ParameterValues> {
+    const out: Partial<ParameterValues> = { ...values }
+    for (const field of schema) {
+        const v = values[field.key]
+        if (field.disabled || v === undefined || !Number.isFinite(v)) {
+            out[field.key] = field.default
+        } else if (field.type === "percent") {
+            out[field.key] = Math.max(field.min, Math.min(field.max, v))
+        }
+    }
+    return out
+}
+
+export function validateParameters(schema: ParameterField[], values: Partial<ParameterValues>): ParameterErrors {
+    const errors: ParameterErrors = {}
+    for (const field of schema) {
+        if (field.disabled) continue
+        const v = values[field.key]
+        if (v === undefined || !Number.isFinite(v)) {
+            if (field.required) errors[field.key] = `${field.label} is required`
+            continue
+        }
+        if (field.type === "integer" && !Number.isInteger(v)) {
+            errors[field.key] = `${field.label} must be a whole number`
+        } else if (v < field.min || v > field.max) {
+            errors[field.key] = `${field.label} must be between ${field.min.toLocaleString()} and ${field.max.toLocaleString()}`
+        }
+    }
+    return errors
+}
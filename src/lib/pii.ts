@@ -0,0 +1,146 @@
+import { type Row, type Table, isMissing, toKey, toNumber } from "./tabular"
+import type { ColumnSchema } from "./schema"
+
+// Personal data and direct identifiers in the uploaded columns. Each detected column gets a
+// suggested treatment; the user can change it per column in the schema review, and the chosen
+// treatments are sent with the training request and applied by the backend before it trains.
+
+export type PiiKind = "identifier" | "email" | "phone" | "name" | "unique"
+
+export type ColumnPolicy = "synthesize" | "drop" | "hash" | "replace" | "generalize"
+
+export interface PiiFinding {
+    kind: PiiKind
+    // 0-1 share of the sampled values that matched
+    confidence: number
+    suggested: ColumnPolicy
+}
+
+export const PII_LABELS: Record<PiiKind, string> = {
+    identifier: "Identifier",
+    email: "Email address",
+    phone: "Phone number",
+    name: "Person name",
+    unique: "Unique values",
+}
+
+export const COLUMN_POLICIES: { value: ColumnPolicy; label: string; description: string }[] = [
+    { value: "synthesize", label: "Synthesize", description: "Learned and generated like any other column" },
+    { value: "drop", label: "Drop", description: "Removed before training; absent from the output" },
+    { value: "hash", label: "Hash", description: "Salted SHA-256 of each value; keeps joins within one run" },
+    { value: "replace", label: "Fresh values", description: "Random values in the same format, unrelated to the source" },
+    { value: "generalize", label: "Generalize", description: "Ranges, months, email domains or masked prefixes" },
+]
+
+export function isColumnPolicy(value: unknown): value is ColumnPolicy {
+    return COLUMN_POLICIES.some((p) => p.value === value)
+}
+
+// Values checked per column; enough to tell a pattern apart from noise
+const SAMPLE_VALUES = 1000
+// Share of sampled values that must match a pattern
+const MATCH_THRESHOLD = 0.8
+const UNIQUE_THRESHOLD = 0.9
+const MAX_UNIQUE_LENGTH = 60
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i
+const PHONE = /^\+?[\d\s().-]{7,20}$/
+const PHONE_NAME = /phone|mobile|cell|tel(ephone)?$|fax/i
+const ID_NAME = /(^|[\s_-])id$|_id$|^id[\s_-]|uuid|guid|ssn|passport|licen[cs]e|account/i
+// Letter prefix and a run of digits (CNR7670041), or a UUID
+const ID_VALUE = /^[A-Za-z]{1,6}[-_]?\d{4,}$|^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const NAME_COLUMN = /name/i
+const PERSON_NAME = /^[A-Z][a-zA-Z'’-]+(\s+[A-Z][a-zA-Z'’.-]*){0,3}$/
+
+const SUGGESTED: Record<PiiKind, ColumnPolicy> = {
+    identifier: "replace",
+    email: "replace",
+    phone: "replace",
+    name: "drop",
+    unique: "replace",
+}
+
+function share(values: string[], test: (v: string) => boolean): number {
+    if (!values.length) return 0
+    let hits = 0
+    for (const v of values) if (test(v)) hits++
+    return hits / values.length
+}
+
+function isPhone(value: string, namedLikePhone: boolean) {
+    if (!PHONE.test(value)) return false
+    const digits = value.replace(/\D/g, "").length
+    // Bare digit runs are only phone numbers when the column says so; otherwise they're amounts or codes
+    return digits >= 7 && digits <= 15 && (namedLikePhone || /[\s().+-]/.test(value))
+}
+
+export function detectPii(name: string, values: string[], type: ColumnSchema["type"]): PiiFinding | null {
+    const sample = values.slice(0, SAMPLE_VALUES)
+    // Dates and times look like digit runs with separators, but aren't direct identifiers
+    if (!sample.length || type === "date" || type === "datetime" || type === "time") return null
+    const finding = (kind: PiiKind, confidence: number): PiiFinding => ({ kind, confidence, suggested: SUGGESTED[kind] })
+
+    const email = share(sample, (v) => EMAIL.test(v))
+    if (email >= MATCH_THRESHOLD) return finding("email", email)
+
+    const namedLikePhone = PHONE_NAME.test(name)
+    const phone = share(sample, (v) => isPhone(v, namedLikePhone))
+    if (phone >= MATCH_THRESHOLD) return finding("phone", phone)
+
+    const distinct = new Set(sample).size
+    const uniqueness = distinct / sample.length
+    const idValues = share(sample, (v) => ID_VALUE.test(v))
+    if (type === "identifier" || idValues >= MATCH_THRESHOLD || (ID_NAME.test(name) && uniqueness >= 0.5)) {
+        return finding("identifier", Math.max(idValues, uniqueness))
+    }
+
+    // Person names repeat, but have far more distinct values than a category
+    const names = share(sample, (v) => PERSON_NAME.test(v))
+    if (NAME_COLUMN.test(name) && names >= MATCH_THRESHOLD && distinct >= Math.min(50, sample.length * 0.2)) {
+        return finding("name", names)
+    }
+
+    // Near-unique short strings (addresses, usernames) single out a record on their own; numbers,
+    // dates and long free text don't
+    const numeric = share(sample, (v) => toNumber(v) !== null) >= MATCH_THRESHOLD
+    const avgLength = sample.reduce((s, v) => s + v.length, 0) / sample.length
+    const short = (type === "categorical" || type === "text") && avgLength <= MAX_UNIQUE_LENGTH
+    if (short && !numeric && sample.length > 1 && uniqueness >= UNIQUE_THRESHOLD) return finding("unique", uniqueness)
+    return null
+}
+
+// The schema with detected personal data and suggested treatments filled in
+export function withPiiDetection(schema: ColumnSchema[], table: Table): ColumnSchema[] {
+    return schema.map((column) => {
+        const values: string[] = []
+        for (const r of table.rows) {
+            if (values.length >= SAMPLE_VALUES) break
+            if (!isMissing(r[column.name])) values.push(toKey(r[column.name]))
+        }
+        const pii = detectPii(column.name, values, column.inferredType)
+        return { ...column, pii, policy: pii?.suggested ?? "synthesize" }
+    })
+}
+
+export function defaultPolicy(column: ColumnSchema): ColumnPolicy {
+    return column.pii?.suggested ?? "synthesize"
+}
+
+// Columns treated differently from the rest, as sent with the training request
+export function toPolicyPayload(schema: ColumnSchema[]) {
+    return schema
+        .filter((c) => c.policy && c.policy !== "synthesize")
+        .map((c) => ({ name: c.name, action: c.policy as ColumnPolicy }))
+}
+
+export function policyLabel(policy: ColumnPolicy) {
+    return COLUMN_POLICIES.find((p) => p.value === policy)?.label ?? policy
+}
+
+// Source rows without the treated columns. Their output isn't learned from the source values, so
+// the quality comparison leaves them out rather than scoring a dropped or hashed column as a miss.
+export function withoutTreatedColumns(rows: Row[], schema: ColumnSchema[] | null | undefined): Row[] {
+    const treated = new Set(toPolicyPayload(schema ?? []).map((p) => p.name))
+    if (!treated.size) return rows
+    return rows.map((r) => Object.fromEntries(Object.entries(r).filter(([column]) => !treated.has(column))))
+}
@@ -0,0 +1,93 @@
+import type { PrivacySupport } from "./api-client"
+
+// Differential privacy budget for DP-capable models. The backend calibrates the DP-SGD noise so training
+// stays within the target (epsilon, delta), and reports what its privacy accountant actually spent once
+// training finishes. Generating rows afterwards doesn't spend any more of it.
+
+export interface PrivacyBudget {
+    epsilon: number
+    delta: number
+}
+
+export type BudgetErrors = Partial<Record<keyof PrivacyBudget, string>>
+
+export const BUDGET_PRESETS: { label: string; epsilon: number; description: string }[] = [
+    { label: "Strong", epsilon: 1, description: "Any single record barely changes the model; expect a visible quality cost" },
+    { label: "Balanced", epsilon: 3, description: "A common choice for sharing data outside the team" },
+    { label: "Light", epsilon: 8, description: "Close to the quality without privacy, with a weaker guarantee" },
+]
+
+export const EPSILON_RANGE: [number, number] = [0.1, 50]
+
+// Above this the formal guarantee says little, although training still adds noise
+const WEAK_EPSILON = 10
+const DEFAULT_EPSILON = 3
+const MAX_DELTA = 1e-5
+
+export const BUDGET_EXPLANATION =
+    "Epsilon (ε) bounds how much adding or removing any one record can change what the model learns: " +
+    "lower is more private, and around 1 is considered strong. Delta (δ) is the small chance that bound " +
+    "doesn't hold, so it should stay well below one over the number of rows."
+
+// A power of ten at most a tenth of 1/rows, and no larger than 1e-5
+export function suggestedDelta(rowCount: number): number {
+    if (rowCount <= 0) return MAX_DELTA
+    return Math.min(MAX_DELTA, 10 ** Math.floor(Math.log10(1 / (10 * rowCount))))
+}
+
+// The budget a run trains with: null for models without DP and when DP is turned off on an optional model,
+// the default budget when none was chosen yet (models that require DP can't turn it off)
+export function resolveBudget(
+    support: PrivacySupport,
+    budget: PrivacyBudget | null | undefined,
+    rowCount: number,
+): PrivacyBudget | null {
+    if (support === "none") return null
+    if (budget === null && support === "optional") return null
+    return budget ?? { epsilon: DEFAULT_EPSILON, delta: suggestedDelta(rowCount) }
+}
+
+export function validateBudget(budget: PrivacyBudget, rowCount: number): BudgetErrors {
+    const errors: BudgetErrors = {}
+    const [minEpsilon, maxEpsilon] = EPSILON_RANGE
+    if (!Number.isFinite(budget.epsilon)) errors.epsilon = "ε is required"
+    else if (budget.epsilon < minEpsilon || budget.epsilon > maxEpsilon) {
+        errors.epsilon = `ε must be between ${minEpsilon} and ${maxEpsilon}`
+    }
+    if (!Number.isFinite(budget.delta)) errors.delta = "δ is required"
+    else if (budget.delta <= 0) errors.delta = "δ must be above 0"
+    else if (rowCount > 0 && budget.delta >= 1 / rowCount) {
+        errors.delta = `δ must be below 1/${rowCount.toLocaleString()} (one over the number of rows)`
+    }
+    return errors
+}
+
+export function budgetWarning(budget: PrivacyBudget): string | null {
+    return budget.epsilon > WEAK_EPSILON ? `ε above ${WEAK_EPSILON} gives little formal protection` : null
+}
+
+export const formatEpsilon = (epsilon: number) => String(Number(epsilon.toFixed(2)))
+
+export const formatDelta = (delta: number) => Number(delta.toPrecision(2)).toExponential()
+
+export function describeBudget(budget: PrivacyBudget) {
+    return `ε = ${formatEpsilon(budget.epsilon)}, δ = ${formatDelta(budget.delta)}`
+}
+
+// Target and spent budget as key/value pairs for exported files; spent is left out when the backend
+// didn't report it
+export function budgetMetadata(target: PrivacyBudget | null, spent?: PrivacyBudget): Record<string, string> {
+    if (!target) return {}
+    return {
+        dp_target_epsilon: String(target.epsilon),
+        dp_target_delta: String(target.delta),
+        ...(spent ? { dp_spent_epsilon: String(spent.epsilon), dp_spent_delta: String(spent.delta) } : {}),
+    }
+}
+
+// The budget a run asked for, from the hyperparameters sent with /model/train
+export function requestedBudget(parameters: Record<string, unknown> | undefined): PrivacyBudget | null {
+    const epsilon = Number(parameters?.dp_epsilon)
+    const delta = Number(parameters?.dp_delta)
+    return parameters?.dp_epsilon !== undefined && Number.isFinite(epsilon) && Number.isFinite(delta) ? { epsilon, delta } : null
+}
@@ -0,0 +1,350 @@
+import { type Row, isMissing, isNumericColumn, toKey, toNumber } from "./tabular"
+import { type HistogramBin, buildHistogram } from "./distributions"
+import type { EffectiveParameters } from "./hyperparameters"
+import type { ColumnType } from "./schema"
+
+// Privacy diagnostics between the source and synthetic rows: verbatim and near copies of real records,
+// distance to closest record (DCR) against a baseline of real rows, and a distance-based membership
+// inference attack. A share of the source rows is held out of training so the baseline and the attack
+// can use records the model never saw.
+
+export type PrivacyRisk = "Low" | "Medium" | "High"
+
+export interface DistanceSummary {
+    p5: number
+    median: number
+}
+
+export interface PrivacyReport {
+    // Synthetic rows identical to a source row on every compared column, out of `checkedRows`
+    exactCopies: number
+    checkedRows: number
+    // Share of held-out rows matching a training row exactly (or of source rows repeating another);
+    // datasets with few distinct values repeat rows naturally
+    baselineExactShare: number
+    // Sampled synthetic rows within NEAR_COPY_TOLERANCE of a training row on every column, but not identical
+    nearCopies: number
+    sampledRows: number
+    // The same share for the baseline rows; similar real records are near each other too
+    baselineNearCopyShare: number
+    // Gower distance (0-1) from each sampled row to its closest training row
+    syntheticDcr: DistanceSummary
+    baselineDcr: DistanceSummary
+    // "holdout": real rows left out of training; "real": other training rows, when nothing was held out
+    baseline: "holdout" | "real"
+    // Share of synthetic rows closer to a training row than 95% of the baseline rows are (about 0.05 is expected)
+    closerThanBaseline: number
+    // AUC of telling training rows from held-out rows by their distance to the output (0.5 is chance); null without a holdout
+    membershipAuc: number | null
+    // DCR distributions on shared bins: `source` is the baseline, `synthetic` the output
+    histogram: HistogramBin[]
+    risk: PrivacyRisk
+    findings: string[]
+}
+
+// Rows held out of training for the baseline and the attack
+const HOLDOUT_SHARE = 0.1
+const MAX_HOLDOUT_ROWS = 500
+// Smaller datasets need every row for training
+export const MIN_HOLDOUT_SOURCE_ROWS = 200
+// Caps on the pairwise distance computations, which are quadratic
+const SAMPLE_ROWS = 500
+const REFERENCE_ROWS = 3000
+// Nearest rows within 1% of every numeric column's range, with equal categories, are near copies
+const NEAR_COPY_TOLERANCE = 0.01
+
+// Deterministic PRNG so a seed always gives the same holdout and samples
+function seededRandom(seed: string) {
+    let h = 2166136261
+    for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 16777619)
+    return () => {
+        h = (h + 0x6d2b79f5) | 0
+        let t = Math.imul(h ^ (h >>> 15), 1 | h)
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+// `count` distinct indexes below `size`, ascending
+function sampleIndexes(size: number, count: number, random: () => number): number[] {
+    if (count >= size) return Array.from({ length: size }, (_, i) => i)
+    const pool = Array.from({ length: size }, (_, i) => i)
+    for (let i = 0; i < count; i++) {
+        const j = i + Math.floor(random() * (size - i))
+        ;[pool[i], pool[j]] = [pool[j], pool[i]]
+    }
+    return pool.slice(0, count).sort((a, b) => a - b)
+}
+
+// How many of `rowCount` source rows a run holds out; 0 below MIN_HOLDOUT_SOURCE_ROWS
+export function holdoutCount(rowCount: number): number {
+    return rowCount < MIN_HOLDOUT_SOURCE_ROWS ? 0 : Math.min(MAX_HOLDOUT_ROWS, Math.floor(rowCount * HOLDOUT_SHARE))
+}
+
+// Source row indexes left out of training. Seeded from the file contents, so the results page can
+// rebuild the same split.
+export function holdoutRows(rowCount: number, seed: string): number[] {
+    const count = holdoutCount(rowCount)
+    return count ? sampleIndexes(rowCount, count, seededRandom(seed)) : []
+}
+
+// The holdout, if the backend reports leaving it out (`holdout_rows` in its effective parameters);
+// empty when it trained on every row
+export function trainedHoldout(rowCount: number, seed: string, effective: EffectiveParameters | undefined): number[] {
+    const rows = holdoutRows(rowCount, seed)
+    return rows.length && effective?.holdout_rows === rows.length ? rows : []
+}
+
+function rowKey(row: Row, columns: string[]): string {
+    return columns.map((c) => toKey(row[c])).join("\u001f")
+}
+
+// Columns that decide whether a synthetic row copies a source row: everything the model synthesizes from
+// the source. Identifiers are generated fresh and treated columns are dropped, hashed or replaced before
+// training, so neither can match. The privacy report, the in-page download filter and the backend's
+// `drop_copies` all use this rule, so the copies counted are the copies dropped.
+export function copyColumns(schema: { name: string; type: ColumnType }[], treated: Iterable<string>): string[] {
+    const skip = new Set(treated)
+    return schema.filter((c) => c.type !== "identifier" && !skip.has(c.name)).map((c) => c.name)
+}
+
+// Rows that aren't verbatim copies of a source row on `columns`
+export function withoutExactCopies(synthetic: Row[], source: Row[], columns: string[]): Row[] {
+    const sourceKeys = new Set(source.map((r) => rowKey(r, columns)))
+    return synthetic.filter((r) => !sourceKeys.has(rowKey(r, columns)))
+}
+
+interface Encoded {
+    numbers: number[]
+    categories: (string | null)[]
+}
+
+// Numbers scaled by the source range and categories compared for equality (Gower distance)
+function createEncoder(source: Row[], columns: string[]) {
+    const numeric = columns.filter((c) => isNumericColumn(source, c))
+    const categorical = columns.filter((c) => !numeric.includes(c))
+    const spans = numeric.map((c) => {
+        let min = Infinity
+        let max = -Infinity
+        for (const r of source) {
+            const n = toNumber(r[c])
+            if (n === null) continue
+            if (n < min) min = n
+            if (n > max) max = n
+        }
+        return max > min ? max - min : 0
+    })
+    const width = Math.max(1, columns.length)
+
+    const encode = (row: Row): Encoded => ({
+        numbers: numeric.map((c) => toNumber(row[c]) ?? NaN),
+        categories: categorical.map((c) => (isMissing(row[c]) ? null : toKey(row[c]))),
+    })
+
+    // Per-column differences, each 0-1
+    const differences = (a: Encoded, b: Encoded, visit: (d: number) => void) => {
+        for (let i = 0; i < spans.length; i++) {
+            const x = a.numbers[i]
+            const y = b.numbers[i]
+            if (Number.isNaN(x) || Number.isNaN(y)) visit(Number.isNaN(x) && Number.isNaN(y) ? 0 : 1)
+            else visit(spans[i] ? Math.min(1, Math.abs(x - y) / spans[i]) : x === y ? 0 : 1)
+        }
+        for (let i = 0; i < a.categories.length; i++) visit(a.categories[i] === b.categories[i] ? 0 : 1)
+    }
+
+    const distance = (a: Encoded, b: Encoded) => {
+        let sum = 0
+        differences(a, b, (d) => (sum += d))
+        return sum / width
+    }
+
+    const isNearCopy = (a: Encoded, b: Encoded) => {
+        let near = true
+        differences(a, b, (d) => (near &&= d <= NEAR_COPY_TOLERANCE))
+        return near
+    }
+
+    return { encode, distance, isNearCopy }
+}
+
+type Encoder = ReturnType<typeof createEncoder>
+
+// Closest reference row to `query`, skipping reference index `skip`
+function nearest(encoder: Encoder, query: Encoded, reference: Encoded[], skip = -1): { distance: number; index: number } {
+    let best = Infinity
+    let index = -1
+    for (let i = 0; i < reference.length; i++) {
+        if (i === skip) continue
+        const d = encoder.distance(query, reference[i])
+        if (d < best) {
+            best = d
+            index = i
+            if (d === 0) break
+        }
+    }
+    return { distance: best, index }
+}
+
+function quantile(sorted: number[], q: number) {
+    if (!sorted.length) return 0
+    return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))]
+}
+
+function summarize(distances: number[]): DistanceSummary {
+    const sorted = [...distances].sort((a, b) => a - b)
+    return { p5: quantile(sorted, 0.05), median: quantile(sorted, 0.5) }
+}
+
+// Probability that a member scores closer than a non-member, ties counting half
+function auc(members: number[], nonMembers: number[]) {
+    if (!members.length || !nonMembers.length) return 0.5
+    let wins = 0
+    for (const m of members) for (const n of nonMembers) wins += m < n ? 1 : m === n ? 0.5 : 0
+    return wins / (members.length * nonMembers.length)
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+function assessRisk(report: Omit<PrivacyReport, "risk" | "findings">): { risk: PrivacyRisk; findings: string[] } {
+    const findings: string[] = []
+    let risk: PrivacyRisk = "Low"
+    const raise = (level: PrivacyRisk) => {
+        if (level === "High" || (level === "Medium" && risk === "Low")) risk = level
+    }
+
+    const realRows = report.baseline === "holdout" ? "held-out" : "other"
+    const copyShare = report.checkedRows ? report.exactCopies / report.checkedRows : 0
+    if (report.exactCopies) {
+        findings.push(
+            `${report.exactCopies.toLocaleString()} synthetic rows (${percent(copyShare)}) are exact copies of source rows, ` +
+                `against ${percent(report.baselineExactShare)} of ${realRows} real rows`,
+        )
+        if (copyShare > 2 * report.baselineExactShare + 0.005) raise(copyShare > 4 * report.baselineExactShare + 0.02 ? "High" : "Medium")
+    }
+    const nearShare = report.nearCopies / Math.max(1, report.sampledRows)
+    if (nearShare > 2 * report.baselineNearCopyShare + 0.05) {
+        findings.push(
+            `${percent(nearShare)} of sampled rows are near copies of a training row, against ` +
+                `${percent(report.baselineNearCopyShare)} of ${realRows} real rows`,
+        )
+        raise(nearShare > 4 * report.baselineNearCopyShare + 0.1 ? "High" : "Medium")
+    }
+    if (report.closerThanBaseline >= 0.1) {
+        findings.push(
+            `${percent(report.closerThanBaseline)} of synthetic rows sit closer to a training row than 95% of ` +
+                `${realRows} real rows do (about 5% expected)`,
+        )
+        raise(report.closerThanBaseline >= 0.2 ? "High" : "Medium")
+    }
+    if (report.membershipAuc !== null && report.membershipAuc >= 0.55) {
+        findings.push(`A distance-based attack tells training rows from held-out rows with AUC ${report.membershipAuc.toFixed(2)}`)
+        raise(report.membershipAuc >= 0.6 ? "High" : "Medium")
+    }
+    return { risk, findings }
+}
+
+// Yields progress (0-100) between the expensive passes; see computePrivacyReport(Async)
+function* evaluate(source: Row[], synthetic: Row[], columns: string[], holdout: number[]): Generator<number, PrivacyReport> {
+    const random = seededRandom("privacy")
+    const held = new Set(holdout)
+    const training = held.size ? source.filter((_, i) => !held.has(i)) : source
+    const encoder = createEncoder(training, columns)
+    const pick = (rows: Row[], count: number) => sampleIndexes(rows.length, count, random).map((i) => encoder.encode(rows[i]))
+
+    const exactCopies = synthetic.length - withoutExactCopies(synthetic, source, columns).length
+    const realCopies = held.size
+        ? holdout.length - withoutExactCopies(holdout.map((i) => source[i]), training, columns).length
+        : source.length - new Set(source.map((r) => rowKey(r, columns))).size
+    const baselineExactShare = realCopies / Math.max(1, held.size || source.length)
+    const reference = pick(training, REFERENCE_ROWS)
+    const sample = pick(synthetic, SAMPLE_ROWS)
+    yield 10
+
+    // Distance from each row to its closest training row, and how many of those are near copies
+    const measure = (rows: Encoded[], skips: number[] = []) => {
+        const distances: number[] = []
+        let nearCopies = 0
+        rows.forEach((row, i) => {
+            const match = nearest(encoder, row, reference, skips[i])
+            distances.push(match.distance)
+            if (match.distance > 0 && match.index >= 0 && encoder.isNearCopy(row, reference[match.index])) nearCopies++
+        })
+        return { distances, nearCopies }
+    }
+
+    const measured = measure(sample)
+    const syntheticDistances = measured.distances
+    yield 40
+
+    // Held-out rows against the training rows, or each sampled training row against the others
+    const baselineRows = held.size ? pick(holdout.map((i) => source[i]), SAMPLE_ROWS) : []
+    const selfIndexes = held.size ? [] : sampleIndexes(reference.length, SAMPLE_ROWS, random)
+    const baselineMeasured = held.size ? measure(baselineRows) : measure(selfIndexes.map((i) => reference[i]), selfIndexes)
+    const baselineDistances = baselineMeasured.distances
+    yield 60
+
+    // Attack: training rows should be no closer to the output than rows the model never saw
+    let membershipAuc: number | null = null
+    if (baselineRows.length) {
+        const output = pick(synthetic, REFERENCE_ROWS)
+        const members = pick(training, baselineRows.length).map((row) => nearest(encoder, row, output).distance)
+        yield 80
+        const nonMembers = baselineRows.map((row) => nearest(encoder, row, output).distance)
+        membershipAuc = auc(members, nonMembers)
+    }
+    yield 95
+
+    const baselineDcr = summarize(baselineDistances)
+    const report = {
+        exactCopies,
+        checkedRows: synthetic.length,
+        baselineExactShare,
+        nearCopies: measured.nearCopies,
+        sampledRows: sample.length,
+        baselineNearCopyShare: baselineDistances.length ? baselineMeasured.nearCopies / baselineDistances.length : 0,
+        syntheticDcr: summarize(syntheticDistances),
+        baselineDcr,
+        baseline: held.size ? ("holdout" as const) : ("real" as const),
+        closerThanBaseline: syntheticDistances.length
+            ? syntheticDistances.filter((d) => d < baselineDcr.p5).length / syntheticDistances.length
+            : 0,
+        membershipAuc,
+        histogram: buildHistogram(
+            baselineDistances.map((distance) => ({ distance })),
+            syntheticDistances.map((distance) => ({ distance })),
+            "distance",
+        ),
+    }
+    return { ...report, ...assessRisk(report) }
+}
+
+// `columns` are the ones compared (identifiers and treated columns left out); `holdout` are the source
+// row indexes the backend left out of training, empty when it trained on every row
+export function computePrivacyReport(source: Row[], synthetic: Row[], columns: string[], holdout: number[]): PrivacyReport {
+    const steps = evaluate(source, synthetic, columns, holdout)
+    let step = steps.next()
+    while (!step.done) step = steps.next()
+    return step.value
+}
+
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+// Same report, yielding to the page between passes so the caller can show progress
+export async function computePrivacyReportAsync(
+    source: Row[],
+    synthetic: Row[],
+    columns: string[],
+    holdout: number[],
+    opts: { onProgress?: (percent: number) => void; signal?: AbortSignal } = {},
+): Promise<PrivacyReport> {
+    const steps = evaluate(source, synthetic, columns, holdout)
+    let step = steps.next()
+    while (!step.done) {
+        opts.onProgress?.(step.value)
+        await yieldToEventLoop()
+        opts.signal?.throwIfAborted()
+        step = steps.next()
+    }
+    opts.onProgress?.(100)
+    return step.value
+}
@@ -0,0 +1,177 @@
+import { type Row, type Table, isMissing, toKey, toNumber } from "./tabular"
+import { type ColumnSchema, type ColumnType, SPARSE_NULL_RATE, inferSchema } from "./schema"
+
+// A profile of the uploaded dataset, shown in the Analyze step before anything is trained. It is
+// kept with the run as the baseline the synthetic output is profiled against on the results page.
+
+export interface NumericSummary {
+    min: number
+    max: number
+    mean: number
+    std: number
+}
+
+export interface CategoryCount {
+    value: string
+    count: number
+    // 0-1 share of the rows that have a value
+    share: number
+}
+
+export interface ColumnProfile {
+    name: string
+    type: ColumnType
+    // 0-1 share of rows with no value
+    missingRate: number
+    distinct: number
+    // Only for numeric columns
+    numeric: NumericSummary | null
+    // Most frequent values, for columns that aren't numeric or identifiers
+    topValues: CategoryCount[]
+    warnings: string[]
+}
+
+export interface DatasetProfile {
+    rowCount: number
+    columnCount: number
+    // Rows identical to an earlier row in every column
+    duplicateRows: number
+    // 0-1 share of all cells with no value
+    missingCells: number
+    columns: ColumnProfile[]
+    warnings: string[]
+}
+
+const TOP_VALUES = 5
+// Below this many rows models tend to memorize rather than learn the distribution
+const SMALL_DATASET_ROWS = 100
+// Non-numeric columns with at least this share of distinct values look like identifiers
+const IDENTIFIER_UNIQUENESS = 0.9
+
+function summarize(values: number[]): NumericSummary | null {
+    if (!values.length) return null
+    let min = Infinity
+    let max = -Infinity
+    let sum = 0
+    for (const v of values) {
+        if (v < min) min = v
+        if (v > max) max = v
+        sum += v
+    }
+    const mean = sum / values.length
+    const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length
+    return { min, max, mean, std: Math.sqrt(variance) }
+}
+
+function columnWarnings(column: Omit<ColumnProfile, "warnings">, present: number, rowCount: number): string[] {
+    const warnings: string[] = []
+    if (column.missingRate >= 1) warnings.push("Always empty")
+    else if (column.missingRate >= SPARSE_NULL_RATE) warnings.push(`Mostly empty (${Math.round(column.missingRate * 100)}%)`)
+    if (column.distinct === 1 && column.missingRate === 0) warnings.push("Constant column")
+    const uniqueness = present ? column.distinct / present : 0
+    const looksUnique = column.type !== "numeric" && column.type !== "text" && present > 1 && uniqueness >= IDENTIFIER_UNIQUENESS
+    if (column.type === "identifier" || looksUnique) {
+        warnings.push("High-cardinality identifier")
+    } else if (column.type === "categorical" && column.distinct > Math.max(100, rowCount * 0.5)) {
+        warnings.push("High cardinality for a category")
+    }
+    return warnings
+}
+
+function profileColumn(rows: Row[], name: string, type: ColumnType): ColumnProfile {
+    const counts = new Map<string, number>()
+    const numbers: number[] = []
+    let present = 0
+    for (const r of rows) {
+        const v = r[name]
+        if (isMissing(v)) continue
+        present++
+        const key = toKey(v)
+        counts.set(key, (counts.get(key) ?? 0) + 1)
+        if (type === "numeric") {
+            const n = toNumber(v)
+            if (n !== null) numbers.push(n)
+        }
+    }
+
+    const topValues =
+        type === "numeric" || type === "identifier"
+            ? []
+            : Array.from(counts, ([value, count]) => ({ value, count, share: count / present }))
+                  .sort((a, b) => b.count - a.count)
+                  .slice(0, TOP_VALUES)
+    const column = {
+        name,
+        type,
+        missingRate: rows.length ? 1 - present / rows.length : 0,
+        distinct: counts.size,
+        numeric: type === "numeric" ? summarize(numbers) : null,
+        topValues,
+    }
+    return { ...column, warnings: columnWarnings(column, present, rows.length) }
+}
+
+function countDuplicateRows(rows: Row[], columns: string[]): number {
+    const seen = new Set<string>()
+    let duplicates = 0
+    for (const r of rows) {
+        const key = columns.map((c) => toKey(r[c])).join("\u0001")
+        if (seen.has(key)) duplicates++
+        else seen.add(key)
+    }
+    return duplicates
+}
+
+// Column types come from `schema` when given (the synthetic profile reuses the source's types so
+// both sides are summarized the same way), and are inferred otherwise
+export function profileTable(table: Table, schema?: Pick<ColumnSchema, "name" | "type">[] | null): DatasetProfile {
+    const types = new Map((schema ?? inferSchema(table)).map((c) => [c.name, c.type]))
+    const columns = table.columns.map((name) => profileColumn(table.rows, name, types.get(name) ?? "categorical"))
+    const rowCount = table.rows.length
+    const duplicateRows = countDuplicateRows(table.rows, table.columns)
+    const cells = rowCount * columns.length
+    const missingCells = cells ? columns.reduce((s, c) => s + c.missingRate * rowCount, 0) / cells : 0
+
+    const warnings: string[] = []
+    if (!rowCount) warnings.push("The file has no data rows")
+    else if (rowCount < SMALL_DATASET_ROWS) warnings.push(`Only ${rowCount} rows; models may memorize rather than generalize`)
+    if (duplicateRows) {
+        const share = ((duplicateRows / rowCount) * 100).toFixed(1)
+        warnings.push(`${duplicateRows.toLocaleString()} duplicate row${duplicateRows === 1 ? "" : "s"} (${share}%)`)
+    }
+    const constant = columns.filter((c) => c.warnings.includes("Constant column")).length
+    if (constant) warnings.push(constant === 1 ? "1 constant column carries no information" : `${constant} constant columns carry no information`)
+
+    return { rowCount, columnCount: columns.length, duplicateRows, missingCells, columns, warnings }
+}
+
+// Differences between a synthetic column and its baseline worth pointing out, by column name
+export function profileDrift(baseline: DatasetProfile, synthetic: DatasetProfile): Map<string, string[]> {
+    const drift = new Map<string, string[]>()
+    const byName = new Map(synthetic.columns.map((c) => [c.name, c]))
+    for (const base of baseline.columns) {
+        const syn = byName.get(base.name)
+        const notes: string[] = []
+        if (!syn) {
+            drift.set(base.name, ["Missing from the output"])
+            continue
+        }
+        if (Math.abs(syn.missingRate - base.missingRate) >= 0.1) {
+            notes.push(`Missing rate ${Math.round(base.missingRate * 100)}% → ${Math.round(syn.missingRate * 100)}%`)
+        }
+        if (base.numeric && syn.numeric) {
+            const shift = Math.abs(syn.numeric.mean - base.numeric.mean)
+            if (base.numeric.std > 0 && shift > 0.5 * base.numeric.std) {
+                notes.push(`Mean shifted by ${(shift / base.numeric.std).toFixed(1)} std`)
+            }
+            if (syn.numeric.min < base.numeric.min || syn.numeric.max > base.numeric.max) notes.push("Values outside the source range")
+        }
+        const baseTop = base.topValues[0]?.value
+        if (baseTop !== undefined && syn.topValues[0] && syn.topValues[0].value !== baseTop) {
+            notes.push(`Most common value changed from "${baseTop}"`)
+        }
+        if (syn.distinct === 1 && base.distinct > 1) notes.push("Collapsed to a single value")
+        if (notes.length) drift.set(base.name, notes)
+    }
+    return drift
+}
@@ -0,0 +1,97 @@
+import { readServerConfig } from "./config"
+
+// Request headers passed through to the backend; everything else (cookies, host, hop-by-hop) stays here
+const FORWARDED_REQUEST_HEADERS = ["authorization", "content-type", "content-length", "accept", "x-request-id"]
+
+// Response headers that must not be copied from the upstream response
+const DROPPED_RESPONSE_HEADERS = ["connection", "keep-alive", "transfer-encoding", "content-encoding", "content-length"]
+
+function jsonError(status: number, message: string) {
+    return Response.json({ error: message }, { status })
+}
+
+// Counts bytes as the body streams through, so chunked uploads without a Content-Length are capped too
+function limitBody(body: ReadableStream<Uint8Array>, maxBytes: number, onExceeded: () => void) {
+    let received = 0
+    return body.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                received += chunk.byteLength
+                if (received > maxBytes) {
+                    onExceeded()
+                    controller.error(new Error("Request body too large"))
+                    return
+                }
+                controller.enqueue(chunk)
+            },
+        }),
+    )
+}
+
+// Forward a route handler request to the backend, streaming bodies in both directions
+export async function proxyToBackend(req: Request, path: string): Promise<Response> {
+    const config = readServerConfig()
+    const started = Date.now()
+    const search = new URL(req.url).search
+    const target = `${config.apiBaseUrl}${path}${search}`
+    // Status polls and page fetches are frequent, so successful requests are only logged when asked for
+    const log = (status: number | string) => {
+        const failed = typeof status === "string" || status >= 400
+        if (!failed && !config.logRequests) return
+        const line = `[proxy] ${req.method} ${path}${search} -> ${status} in ${Date.now() - started}ms`
+        if (failed) console.warn(line)
+        else console.info(line)
+    }
+    const tooLarge = () => {
+        log(413)
+        return jsonError(413, `Request body exceeds ${Math.round(config.maxUploadBytes / 1024 / 1024)}MB limit`)
+    }
+
+    const declaredLength = Number(req.headers.get("content-length") ?? 0)
+    if (declaredLength > config.maxUploadBytes) return tooLarge()
+
+    const headers = new Headers()
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+        const value = req.headers.get(name)
+        if (value) headers.set(name, value)
+    }
+
+    const hasBody = req.method !== "GET" && req.method !== "HEAD" && req.body !== null
+    // The declared length can be missing (chunked) or wrong, so the body is also measured in flight
+    const overLimit = new AbortController()
+    const body = hasBody ? limitBody(req.body!, config.maxUploadBytes, () => overLimit.abort()) : undefined
+    // The timeout covers waiting for the response headers only, so long downloads and event streams aren't cut off
+    const timeout = new AbortController()
+    const timer = setTimeout(() => timeout.abort(new DOMException("Backend timed out", "TimeoutError")), config.proxyTimeoutMs)
+    let upstream: Response
+    try {
+        upstream = await fetch(target, {
+            method: req.method,
+            headers,
+            body,
+            signal: AbortSignal.any([req.signal, timeout.signal, overLimit.signal]),
+            // Required by Node's fetch to stream a request body
+            ...(hasBody ? { duplex: "half" } : {}),
+        } as RequestInit)
+    } catch (e) {
+        if (overLimit.signal.aborted) return tooLarge()
+        if (e instanceof Error && e.name === "TimeoutError") {
+            log(504)
+            return jsonError(504, "Backend did not respond in time")
+        }
+        if (req.signal.aborted) {
+            log("aborted")
+            return jsonError(499, "Client closed request")
+        }
+        log(502)
+        return jsonError(502, `Backend unavailable: ${e instanceof Error ? e.message : "unknown error"}`)
+    } finally {
+        clearTimeout(timer)
+    }
+
+    const responseHeaders = new Headers(upstream.headers)
+    for (const name of DROPPED_RESPONSE_HEADERS) responseHeaders.delete(name)
+
+    log(upstream.status)
+    return new Response(upstream.body, { status: upstream.status, headers: responseHeaders })
+}
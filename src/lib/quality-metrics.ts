@@ -0,0 +1,272 @@
+import { type Row, collectColumns, isMissing, isNumericColumn, toKey, toNumber } from "./tabular"
+import { type CorrelationComparison, compareCorrelations } from "./correlations"
+
+export type ColumnKind = "numeric" | "categorical"
+
+export interface ColumnSimilarity {
+    column: string
+    kind: ColumnKind
+    // "ks" for numeric columns, "tvd" for categorical ones
+    test: "ks" | "tvd"
+    statistic: number
+    // 0-100, higher means the synthetic column follows the source more closely
+    similarity: number
+    // 0-100, share of source categories (or source range) the synthetic column reaches
+    coverage: number
+}
+
+export interface QualityMetrics {
+    fidelity: number
+    privacy: number
+    utility: number
+    diversity: number
+}
+
+export interface StatisticalMetrics {
+    correlationPreservation: number
+    distributionSimilarity: number
+    categoryCoverage: number
+    rangeCoverage: number
+    rowUniqueness: number
+}
+
+export type QualityRating = "Excellent" | "Good" | "Fair" | "Poor"
+
+export interface QualityReport {
+    columns: ColumnSimilarity[]
+    correlations: CorrelationComparison
+    quality: QualityMetrics
+    statistics: StatisticalMetrics
+    overall: number
+    rating: QualityRating
+}
+
+// Rating thresholds on the overall score (0-100)
+export const RATING_THRESHOLDS: { min: number; rating: QualityRating }[] = [
+    { min: 85, rating: "Excellent" },
+    { min: 70, rating: "Good" },
+    { min: 50, rating: "Fair" },
+    { min: 0, rating: "Poor" },
+]
+
+// A single column below this similarity caps the rating at "Fair"
+export const WORST_COLUMN_THRESHOLD = 60
+
+export function rateScore(score: number): QualityRating {
+    return RATING_THRESHOLDS.find((t) => score >= t.min)?.rating ?? "Poor"
+}
+
+// Near-unique text columns (booking/customer IDs) carry no distribution to compare
+export function isIdentifierColumn(rows: Row[], column: string, threshold = 0.9): boolean {
+    let present = 0
+    const distinct = new Set<string>()
+    for (const r of rows) {
+        const v = r[column]
+        if (isMissing(v)) continue
+        present++
+        distinct.add(toKey(v))
+    }
+    return present > 1 && distinct.size / present >= threshold && !isNumericColumn(rows, column)
+}
+
+function numericValues(rows: Row[], column: string): number[] {
+    const out: number[] = []
+    for (const r of rows) {
+        const n = toNumber(r[column])
+        if (n !== null) out.push(n)
+    }
+    return out.sort((a, b) => a - b)
+}
+
+function frequencies(rows: Row[], column: string): Map<string, number> {
+    const counts = new Map<string, number>()
+    let total = 0
+    for (const r of rows) {
+        const v = r[column]
+        if (isMissing(v)) continue
+        const k = toKey(v)
+        counts.set(k, (counts.get(k) ?? 0) + 1)
+        total++
+    }
+    for (const [k, c] of counts) counts.set(k, c / total)
+    return counts
+}
+
+// Two-sample Kolmogorov-Smirnov statistic on pre-sorted samples
+export function ksStatistic(a: number[], b: number[]): number {
+    if (!a.length || !b.length) return a.length === b.length ? 0 : 1
+    let i = 0
+    let j = 0
+    let d = 0
+    while (i < a.length && j < b.length) {
+        const x = Math.min(a[i], b[j])
+        while (i < a.length && a[i] <= x) i++
+        while (j < b.length && b[j] <= x) j++
+        d = Math.max(d, Math.abs(i / a.length - j / b.length))
+    }
+    return d
+}
+
+// Total variation distance between two categorical frequency tables
+export function totalVariation(p: Map<string, number>, q: Map<string, number>): number {
+    if (!p.size && !q.size) return 0
+    const keys = new Set([...p.keys(), ...q.keys()])
+    let sum = 0
+    for (const k of keys) sum += Math.abs((p.get(k) ?? 0) - (q.get(k) ?? 0))
+    return sum / 2
+}
+
+function rangeCoverage(source: number[], synthetic: number[]): number {
+    if (!source.length || !synthetic.length) return 0
+    const span = source[source.length - 1] - source[0]
+    if (span === 0) return synthetic.some((v) => v === source[0]) ? 1 : 0
+    const lo = Math.max(source[0], synthetic[0])
+    const hi = Math.min(source[source.length - 1], synthetic[synthetic.length - 1])
+    return Math.max(0, hi - lo) / span
+}
+
+function categoryCoverage(source: Map<string, number>, synthetic: Map<string, number>): number {
+    if (!source.size) return 0
+    let hit = 0
+    for (const k of source.keys()) if (synthetic.has(k)) hit++
+    return hit / source.size
+}
+
+export function compareColumn(source: Row[], synthetic: Row[], column: string): ColumnSimilarity {
+    if (isNumericColumn(source, column)) {
+        const a = numericValues(source, column)
+        const b = numericValues(synthetic, column)
+        const statistic = ksStatistic(a, b)
+        return {
+            column,
+            kind: "numeric",
+            test: "ks",
+            statistic,
+            similarity: (1 - statistic) * 100,
+            coverage: rangeCoverage(a, b) * 100,
+        }
+    }
+
+    const p = frequencies(source, column)
+    const q = frequencies(synthetic, column)
+    const statistic = totalVariation(p, q)
+    return {
+        column,
+        kind: "categorical",
+        test: "tvd",
+        statistic,
+        similarity: (1 - statistic) * 100,
+        coverage: categoryCoverage(p, q) * 100,
+    }
+}
+
+function rowKey(row: Row, columns: string[]): string {
+    return columns.map((c) => toKey(row[c])).join("\u001f")
+}
+
+function uniqueRatio(rows: Row[], columns: string[]): number {
+    if (!rows.length) return 0
+    return new Set(rows.map((r) => rowKey(r, columns))).size / rows.length
+}
+
+function mean(values: number[]): number {
+    return values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0
+}
+
+const clamp = (v: number) => Math.max(0, Math.min(100, v))
+
+function comparableColumns(source: Row[], synthetic: Row[]) {
+    const syntheticColumns = new Set(collectColumns(synthetic))
+    const comparable = collectColumns(source).filter((c) => !isIdentifierColumn(source, c))
+    const shared = comparable.filter((c) => syntheticColumns.has(c))
+    return { comparable, shared }
+}
+
+export function computeQualityReport(source: Row[], synthetic: Row[]): QualityReport {
+    const { comparable, shared } = comparableColumns(source, synthetic)
+    const columns = shared.map((c) => compareColumn(source, synthetic, c))
+    return summarizeReport(source, synthetic, comparable, shared, columns, compareCorrelations(source, synthetic, columns))
+}
+
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+// Same report as computeQualityReport, built a column at a time so the caller can show progress
+// (columns up to 70%, correlations up to 90%) and the page stays responsive on large outputs
+export async function computeQualityReportAsync(
+    source: Row[],
+    synthetic: Row[],
+    opts: { onProgress?: (percent: number) => void; signal?: AbortSignal } = {},
+): Promise<QualityReport> {
+    const { onProgress, signal } = opts
+    const { comparable, shared } = comparableColumns(source, synthetic)
+
+    const columns: ColumnSimilarity[] = []
+    for (const [i, c] of shared.entries()) {
+        signal?.throwIfAborted()
+        columns.push(compareColumn(source, synthetic, c))
+        onProgress?.(Math.round(((i + 1) / shared.length) * 70))
+        await yieldToEventLoop()
+    }
+
+    signal?.throwIfAborted()
+    const correlations = compareCorrelations(source, synthetic, columns)
+    onProgress?.(90)
+    await yieldToEventLoop()
+
+    signal?.throwIfAborted()
+    const report = summarizeReport(source, synthetic, comparable, shared, columns, correlations)
+    onProgress?.(100)
+    return report
+}
+
+function summarizeReport(
+    source: Row[],
+    synthetic: Row[],
+    comparable: string[],
+    shared: string[],
+    columns: ColumnSimilarity[],
+    correlations: CorrelationComparison,
+): QualityReport {
+    const numeric = columns.filter((c) => c.kind === "numeric")
+    const categorical = columns.filter((c) => c.kind === "categorical")
+
+    // Source columns missing from the output count as zero similarity
+    const distributionSimilarity = comparable.length
+        ? columns.reduce((s, c) => s + c.similarity, 0) / comparable.length
+        : 0
+
+    const statistics: StatisticalMetrics = {
+        correlationPreservation: correlations.preservation,
+        distributionSimilarity,
+        categoryCoverage: mean(categorical.map((c) => c.coverage)),
+        rangeCoverage: mean(numeric.map((c) => c.coverage)),
+        rowUniqueness: uniqueRatio(synthetic, shared) * 100,
+    }
+
+    // Privacy: share of synthetic rows that are not verbatim copies of a source row
+    const sourceKeys = new Set(source.map((r) => rowKey(r, shared)))
+    const copies = synthetic.filter((r) => sourceKeys.has(rowKey(r, shared))).length
+    const privacy = synthetic.length ? (1 - copies / synthetic.length) * 100 : 0
+
+    // Utility: how much of the source's categories and value ranges the output reaches
+    const utility = columns.length ? mean(columns.map((c) => c.coverage)) * (columns.length / Math.max(1, comparable.length)) : 0
+
+    // Diversity: synthetic row uniqueness relative to the source's own uniqueness
+    const sourceUnique = uniqueRatio(source, shared)
+    const diversity = sourceUnique ? Math.min(1, uniqueRatio(synthetic, shared) / sourceUnique) * 100 : 0
+
+    const quality: QualityMetrics = {
+        fidelity: clamp(distributionSimilarity),
+        privacy: clamp(privacy),
+        utility: clamp(utility),
+        diversity: clamp(diversity),
+    }
+
+    const overall = clamp(quality.fidelity * 0.4 + quality.utility * 0.2 + quality.privacy * 0.25 + quality.diversity * 0.15)
+
+    let rating = rateScore(overall)
+    const worst = Math.min(...columns.map((c) => c.similarity))
+    if (worst < WORST_COLUMN_THRESHOLD && (rating === "Excellent" || rating === "Good")) rating = "Fair"
+
+    return { columns, correlations, quality, statistics, overall, rating }
+}
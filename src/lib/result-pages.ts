@@ -0,0 +1,110 @@
+import { getResultsPage } from "./api-client"
+import type { Row } from "./tabular"
+
+// Generated rows kept on the backend, read a page at a time from /model/results. Only the pages the
+// preview has scrolled near stay cached, so a 100k-row result never sits in the page all at once.
+
+export const RESULT_PAGE_SIZE = 500
+const MAX_CACHED_PAGES = 20
+// Larger pages for sequential reads
+const SAMPLE_PAGE_SIZE = 2000
+
+export interface ResultPages {
+    total: number
+    // undefined while the row's page is loading
+    row(index: number): Row | undefined
+    // Loads the pages covering rows [first, last) that aren't cached or in flight
+    request(first: number, last: number): void
+    error(): string | null
+    // Called whenever a page arrives or fails; returns the unsubscribe function
+    subscribe(listener: () => void): () => void
+}
+
+export function createResultPages(jobId: string, total: number): ResultPages {
+    // Map iteration order doubles as recency: touched pages are re-inserted at the end
+    const pages = new Map<number, Row[]>()
+    const loading = new Set<number>()
+    const listeners = new Set<() => void>()
+    let lastError: string | null = null
+
+    const notify = () => listeners.forEach((l) => l())
+
+    const load = async (page: number) => {
+        loading.add(page)
+        try {
+            const result = await getResultsPage(jobId, page * RESULT_PAGE_SIZE, RESULT_PAGE_SIZE)
+            pages.set(page, result.rows)
+            lastError = null
+            while (pages.size > MAX_CACHED_PAGES) pages.delete(pages.keys().next().value!)
+        } catch (e) {
+            lastError = e instanceof Error ? e.message : String(e)
+        } finally {
+            loading.delete(page)
+            notify()
+        }
+    }
+
+    return {
+        total,
+        row(index) {
+            const page = Math.floor(index / RESULT_PAGE_SIZE)
+            const rows = pages.get(page)
+            if (!rows) return undefined
+            pages.delete(page)
+            pages.set(page, rows)
+            return rows[index % RESULT_PAGE_SIZE]
+        },
+        request(first, last) {
+            const from = Math.floor(Math.max(0, first) / RESULT_PAGE_SIZE)
+            const to = Math.floor((Math.min(total, last) - 1) / RESULT_PAGE_SIZE)
+            for (let page = from; page <= to; page++) {
+                if (!pages.has(page) && !loading.has(page)) void load(page)
+            }
+        },
+        error: () => lastError,
+        subscribe(listener) {
+            listeners.add(listener)
+            return () => listeners.delete(listener)
+        },
+    }
+}
+
+// Rows per block of a sample; small enough that the blocks spread across the output, large enough to
+// keep the number of requests down
+const SAMPLE_BLOCK_ROWS = 100
+
+// Up to `limit` rows for validation and the charts on large results. When the result is larger than that,
+// they come in blocks drawn at random from across the output, so the measurements don't only describe
+// whatever the backend happened to generate first.
+export async function fetchSampleRows(
+    jobId: string,
+    total: number,
+    limit: number,
+    opts: { signal?: AbortSignal; onProgress?: (percent: number) => void } = {},
+): Promise<Row[]> {
+    const rows: Row[] = []
+    if (total <= limit) {
+        while (rows.length < total) {
+            const page = await getResultsPage(jobId, rows.length, Math.min(SAMPLE_PAGE_SIZE, total - rows.length), { signal: opts.signal })
+            if (!page.rows.length) break
+            rows.push(...page.rows)
+            opts.onProgress?.(Math.round((rows.length / Math.max(1, total)) * 100))
+        }
+        return rows
+    }
+
+    // Partial Fisher-Yates over the block indexes, read back in output order
+    const blocks = Array.from({ length: Math.ceil(total / SAMPLE_BLOCK_ROWS) }, (_, i) => i)
+    const wanted = Math.min(blocks.length, Math.ceil(limit / SAMPLE_BLOCK_ROWS))
+    for (let i = 0; i < wanted; i++) {
+        const j = i + Math.floor(Math.random() * (blocks.length - i))
+        ;[blocks[i], blocks[j]] = [blocks[j], blocks[i]]
+    }
+    const chosen = blocks.slice(0, wanted).sort((a, b) => a - b)
+    for (const [i, block] of chosen.entries()) {
+        const page = await getResultsPage(jobId, block * SAMPLE_BLOCK_ROWS, SAMPLE_BLOCK_ROWS, { signal: opts.signal })
+        rows.push(...page.rows)
+        opts.onProgress?.(Math.round(((i + 1) / chosen.length) * 100))
+    }
+    return rows.slice(0, limit)
+}
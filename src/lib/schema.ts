@@ -0,0 +1,125 @@
+import { type Row, type Table, isMissing, toKey, toNumber } from "./tabular"
+import type { ColumnPolicy, PiiFinding } from "./pii"
+
+export type ColumnType = "numeric" | "categorical" | "datetime" | "date" | "time" | "identifier" | "text"
+
+export const COLUMN_TYPES: { value: ColumnType; label: string }[] = [
+    { value: "numeric", label: "Numeric" },
+    { value: "categorical", label: "Categorical" },
+    { value: "datetime", label: "Date & time" },
+    { value: "date", label: "Date" },
+    { value: "time", label: "Time" },
+    { value: "identifier", label: "Identifier" },
+    { value: "text", label: "Free text" },
+]
+
+export interface ColumnSchema {
+    name: string
+    // What inference picked; `type` starts equal to it and may be overridden by the user
+    inferredType: ColumnType
+    type: ColumnType
+    // 0-1 share of rows with no value
+    nullRate: number
+    // Distinct non-missing values
+    cardinality: number
+    nullable: boolean
+    samples: string[]
+    // Personal data detected in the column, and how it is treated before training ("synthesize" when unset)
+    pii?: PiiFinding | null
+    policy?: ColumnPolicy
+}
+
+// Above this null rate a column is treated as sparse (e.g. cancellation reasons only set on cancelled rides)
+export const SPARSE_NULL_RATE = 0.5
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$|^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/
+const TIME_PATTERN = /^\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?\s*([AaPp][Mm])?$/
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/
+const IDENTIFIER_NAME = /(^|[\s_-])id$|_id$|^id[\s_-]|uuid|guid/i
+
+function share(values: string[], test: (v: string) => boolean): number {
+    if (!values.length) return 0
+    let hits = 0
+    for (const v of values) if (test(v)) hits++
+    return hits / values.length
+}
+
+export function inferColumnType(name: string, values: string[], rowCount: number, threshold = 0.95): ColumnType {
+    if (!values.length) return "categorical"
+
+    if (share(values, (v) => DATETIME_PATTERN.test(v)) >= threshold) return "datetime"
+    if (share(values, (v) => DATE_PATTERN.test(v)) >= threshold) return "date"
+    if (share(values, (v) => TIME_PATTERN.test(v)) >= threshold) return "time"
+
+    const distinct = new Set(values).size
+    const uniqueness = distinct / values.length
+    const numeric = share(values, (v) => toNumber(v) !== null) >= threshold
+
+    if (numeric) {
+        // Integer codes that never repeat and are named like an ID are identifiers, not quantities
+        const integers = share(values, (v) => Number.isInteger(toNumber(v))) === 1
+        return integers && uniqueness >= 0.99 && IDENTIFIER_NAME.test(name) ? "identifier" : "numeric"
+    }
+
+    const avgLength = values.reduce((s, v) => s + v.length, 0) / values.length
+    const multiWord = share(values, (v) => /\s/.test(v.trim()))
+
+    if (uniqueness >= 0.9 && values.length > 1) {
+        if (avgLength > 40 || multiWord > 0.5) return "text"
+        return "identifier"
+    }
+    if (IDENTIFIER_NAME.test(name) && uniqueness >= 0.5 && multiWord < 0.1) return "identifier"
+    if (avgLength > 60 && distinct > Math.min(50, rowCount / 2)) return "text"
+    return "categorical"
+}
+
+function columnValues(rows: Row[], column: string): string[] {
+    const out: string[] = []
+    for (const r of rows) {
+        const v = r[column]
+        if (!isMissing(v)) out.push(toKey(v))
+    }
+    return out
+}
+
+export function inferSchema(table: Table): ColumnSchema[] {
+    const rowCount = table.rows.length
+    return table.columns.map((name) => {
+        const values = columnValues(table.rows, name)
+        const inferredType = inferColumnType(name, values, rowCount)
+        const distinct = Array.from(new Set(values))
+        const nullRate = rowCount ? 1 - values.length / rowCount : 0
+        return {
+            name,
+            inferredType,
+            type: inferredType,
+            nullRate,
+            cardinality: distinct.length,
+            nullable: nullRate > 0,
+            samples: distinct.slice(0, 3),
+        }
+    })
+}
+
+export function getSchemaWarnings(column: ColumnSchema, rowCount: number): string[] {
+    const warnings: string[] = []
+    if (column.nullRate >= 1) warnings.push("Always empty")
+    else if (column.nullRate >= SPARSE_NULL_RATE) warnings.push(`Sparse (${Math.round(column.nullRate * 100)}% empty)`)
+    if (column.cardinality === 1 && column.nullRate > 0 && column.nullRate < 1) warnings.push("Presence flag (one value or empty)")
+    else if (column.cardinality === 1 && column.nullRate === 0) warnings.push("Constant value")
+    if (column.type === "categorical" && column.cardinality > Math.max(100, rowCount * 0.5)) {
+        warnings.push("High cardinality for a category")
+    }
+    if (column.type === "identifier" && (column.policy ?? "synthesize") === "synthesize") warnings.push("Generated as fresh IDs")
+    return warnings
+}
+
+// Shape sent to the backend with the training request
+export function toSchemaPayload(schema: ColumnSchema[]) {
+    return schema.map((c) => ({
+        name: c.name,
+        type: c.type,
+        nullable: c.nullable,
+        null_rate: Number(c.nullRate.toFixed(4)),
+    }))
+}
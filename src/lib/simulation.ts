@@ -0,0 +1,829 @@
+import { createHash, randomBytes } from "crypto"
+import { type Row, type Table, isMissing, parseTable, toKey, toNumber } from "./tabular"
+import { type ColumnSchema, type ColumnType, inferSchema } from "./schema"
+import { buildBinaryExport, exportColumns, exportMimeType, exportTextChunks, isExportFormat, isTextFormat } from "./export-formats"
+import { type CatalogModel, DROPPED_COPIES_HEADER } from "./api-client"
+import { type ColumnPolicy, isColumnPolicy } from "./pii"
+import type { GenerationCondition } from "./conditions"
+import { type Constraint, createConstraintChecker, dateColumns, parseConstraints, validateConstraints } from "./constraints"
+import type { TrainingHyperparameters } from "./hyperparameters"
+import { defaultParameterSchema } from "./parameter-schema"
+import { copyColumns, withoutExactCopies } from "./privacy-metrics"
+import { budgetMetadata } from "./privacy-budget"
+
+// In-process stand-in for the generation backend: same upload/train/status/generate contract,
+// synthetic rows sampled around the uploaded rows' per-column distributions. Enabled with SPOOF_BACKEND=simulation.
+
+interface SimulatedDataset {
+    id: string
+    name: string
+    table: Table
+}
+
+interface SimulatedJob {
+    id: string
+    datasetId: string
+    modelName: string
+    schema: { name: string; type: ColumnType }[] | null
+    // Column policies applied before training, and the table the model was trained on after them
+    policies: ColumnPolicyRequest[]
+    table: Table
+    // Rules every generated row is redrawn until it follows
+    constraints: Constraint[]
+    hyperparameters: TrainingHyperparameters
+    // What the privacy accountant reports once training finishes, for DP runs
+    privacySpent?: { epsilon: number; delta: number }
+    startedAt: number
+    // Profiling/encoding runs first, then training
+    preprocessMs: number
+    durationMs: number
+    cancelledAt?: number
+    // Set while /model/generate is producing rows; the rows stay here for /model/results and /model/download
+    generation?: { produced: number; total: number; finishedAt?: number; cancelled?: boolean; rows?: Row[] }
+}
+
+interface ColumnPolicyRequest {
+    name: string
+    action: ColumnPolicy
+}
+
+interface SimulationStore {
+    datasets: Map<string, SimulatedDataset>
+    jobs: Map<string, SimulatedJob>
+}
+
+// Route handlers can be bundled separately, so the store lives on globalThis to be shared between them
+const globalStore = globalThis as typeof globalThis & { __spoofSimulation?: SimulationStore }
+const store: SimulationStore = (globalStore.__spoofSimulation ??= { datasets: new Map(), jobs: new Map() })
+
+const MAX_SAMPLES = 100000
+const DEFAULT_PAGE_SIZE = 500
+const MAX_PAGE_SIZE = 5000
+
+// Mirrors the production model service's catalog so the selection step looks the same in demos
+export const SIMULATION_MODELS: CatalogModel[] = [
+    {
+        id: "tabular-finetune",
+        model_name: "adsgan",
+        name: "Everyday Table Synthesizer",
+        description: "Best for most tabular data! Create realistic, privacy-safe tables for analytics, sharing, or product demos. Handles numbers, categories, text, and more.",
+        type: "tabular",
+        capabilities: ["Mixed column types", "Sparse columns", "Optional privacy"],
+        supported_column_types: ["numeric", "categorical", "datetime", "date", "time", "identifier", "text"],
+        privacy_support: "optional",
+        parameters: defaultParameterSchema("optional"),
+    },
+    {
+        id: "text-finetune",
+        model_name: "text_finetune",
+        name: "Story Spinner",
+        description: "Turn your text into new, privacy-friendly stories, notes, or documents. Great for anonymizing sensitive text or creating training data.",
+        type: "text",
+        capabilities: ["Free text", "Optional privacy"],
+        supported_column_types: ["text"],
+        privacy_support: "optional",
+        // Documents are much larger than rows, so the sample range is smaller
+        parameters: defaultParameterSchema("optional").map((field) =>
+            field.key === "samples"
+                ? { ...field, label: "Documents", min: 10, max: 10000, step: 10, default: 100, help: "Number of synthetic documents to generate." }
+                : field,
+        ),
+    },
+    {
+        id: "tabular-gan",
+        model_name: "ctgan",
+        name: "Big Data Mixer",
+        description: "For large, complex tables! Quickly remix big datasets (50+ columns) while keeping important relationships between columns intact.",
+        type: "tabular",
+        capabilities: ["50+ columns", "Column relationships"],
+        supported_column_types: ["numeric", "categorical", "identifier"],
+        privacy_support: "none",
+        parameters: defaultParameterSchema("none"),
+    },
+    {
+        id: "tabular-dp",
+        model_name: "dpgan",
+        name: "Privacy Guardian",
+        description: "Need maximum privacy? This model creates safe, basic tables for analytics and reporting—perfect when privacy is your top concern.",
+        type: "tabular",
+        capabilities: ["Differential privacy", "Analytics and reporting"],
+        supported_column_types: ["numeric", "categorical", "identifier"],
+        privacy_support: "required",
+        parameters: defaultParameterSchema("required"),
+    },
+]
+
+function jsonError(status: number, message: string) {
+    return Response.json({ error: message }, { status })
+}
+
+function newId(prefix: string) {
+    return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+}
+
+// ---- Samplers --------------------------------------------------------------
+// Each sampler gets the template row's value for its column and returns the synthetic value
+type Sampler = (templateValue: unknown) => unknown
+
+function pick<T>(values: T[]): T {
+    return values[Math.floor(Math.random() * values.length)]
+}
+
+function gaussian() {
+    // Box-Muller
+    const u = 1 - Math.random()
+    const v = Math.random()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+function decimalsOf(values: string[]) {
+    let max = 0
+    for (const v of values.slice(0, 500)) {
+        const dot = v.indexOf(".")
+        if (dot !== -1) max = Math.max(max, v.length - dot - 1)
+    }
+    return Math.min(max, 6)
+}
+
+// Higher temperature means more jitter and more categories drawn away from the template row
+function numericSampler(values: string[], temperature: number): Sampler {
+    const numbers = values.map((v) => toNumber(v)).filter((n): n is number => n !== null)
+    if (!numbers.length) return () => null
+    const mean = numbers.reduce((s, n) => s + n, 0) / numbers.length
+    const std = Math.sqrt(numbers.reduce((s, n) => s + (n - mean) ** 2, 0) / numbers.length)
+    const min = numbers.reduce((a, b) => Math.min(a, b))
+    const max = numbers.reduce((a, b) => Math.max(a, b))
+    const scale = 10 ** decimalsOf(values)
+    // Smoothed bootstrap: jitter the template's value slightly, staying inside the observed range
+    return (templateValue) => {
+        const n = (toNumber(templateValue) ?? pick(numbers)) + gaussian() * std * 0.1 * temperature
+        return Math.round(Math.min(max, Math.max(min, n)) * scale) / scale
+    }
+}
+
+function categoricalSampler(values: string[], temperature = 1): Sampler {
+    // Mostly keep the template's category so related columns (status, cancellation reason) stay consistent
+    const keep = Math.max(0, 1 - 0.15 * temperature)
+    return (templateValue) => (Math.random() < keep && !isMissing(templateValue) ? toKey(templateValue) : pick(values))
+}
+
+function identifierSampler(values: string[]): Sampler {
+    // Keep the shape of the source IDs (e.g. CNR7670041 -> CNR + 7 digits) with fresh digits
+    const sample = values[0] ?? "ID0000000"
+    const prefix = sample.match(/^[^\d]*/)?.[0] ?? ""
+    const digits = Math.max(4, sample.length - prefix.length)
+    return () => prefix + Array.from({ length: digits }, () => Math.floor(Math.random() * 10)).join("")
+}
+
+function dateSampler(values: string[], withTime: boolean): Sampler {
+    const times = values.map((v) => Date.parse(v)).filter((t) => Number.isFinite(t))
+    if (!times.length) return categoricalSampler(values)
+    const min = times.reduce((a, b) => Math.min(a, b))
+    const max = times.reduce((a, b) => Math.max(a, b))
+    return () => {
+        const iso = new Date(min + Math.random() * (max - min)).toISOString()
+        return withTime ? iso.slice(0, 19).replace("T", " ") : iso.slice(0, 10)
+    }
+}
+
+function timeSampler(): Sampler {
+    const pad = (n: number) => String(n).padStart(2, "0")
+    return () => {
+        const seconds = Math.floor(Math.random() * 86400)
+        return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`
+    }
+}
+
+function buildSampler(type: ColumnType, values: string[], temperature: number): Sampler {
+    if (!values.length) return () => null
+    switch (type) {
+        case "numeric":
+            return numericSampler(values, temperature)
+        case "identifier":
+            return identifierSampler(values)
+        case "date":
+            return dateSampler(values, false)
+        case "datetime":
+            return dateSampler(values, true)
+        case "time":
+            return timeSampler()
+        default:
+            return categoricalSampler(values, temperature)
+    }
+}
+
+// `fresh` columns get a new random value in the template's format for every row
+function createRowSampler(
+    table: Table,
+    schema: { name: string; type: ColumnType }[],
+    temperature: number,
+    fresh: Set<string> = new Set(),
+): (template?: Row) => Row {
+    const samplers = new Map<string, Sampler>()
+    for (const column of schema) {
+        const values: string[] = []
+        for (const r of table.rows) if (!isMissing(r[column.name])) values.push(toKey(r[column.name]))
+        samplers.set(column.name, fresh.has(column.name) ? (v) => freshValue(toKey(v)) : buildSampler(column.type, values, temperature))
+    }
+
+    // Each synthetic row is perturbed from a random source row, which also keeps sparse columns sparse together
+    return (template = pick(table.rows) ?? {}) => {
+        const row: Row = {}
+        for (const column of schema) {
+            const value = template[column.name]
+            row[column.name] = isMissing(value) ? null : samplers.get(column.name)!(value)
+        }
+        return row
+    }
+}
+
+export function sampleRows(
+    table: Table,
+    schema: { name: string; type: ColumnType }[],
+    count: number,
+    temperature = 1,
+): Row[] {
+    const next = createRowSampler(table, schema, temperature)
+    return Array.from({ length: count }, () => next())
+}
+
+// ---- Column policies -------------------------------------------------------
+// Personal data treatments requested with /model/train, applied to a copy of the dataset before training
+const LETTERS = "abcdefghijklmnopqrstuvwxyz"
+// A letter prefix and digits (CNR7670041): the prefix is kept, like identifierSampler does
+const ID_SHAPE = /^([A-Za-z]*[-_]?)(\d+)$/
+
+function randomDigits(length: number) {
+    return Array.from({ length }, () => Math.floor(Math.random() * 10)).join("")
+}
+
+// Same format, unrelated content: digits and letters are redrawn, punctuation kept, emails moved to example.com
+function freshValue(value: string): string {
+    const at = value.indexOf("@")
+    if (at > 0) return `${freshValue(value.slice(0, at))}@example.com`
+    const id = ID_SHAPE.exec(value)
+    if (id) return id[1] + randomDigits(id[2].length)
+    return value.replace(/[0-9A-Za-z]/g, (ch) => {
+        if (ch >= "0" && ch <= "9") return randomDigits(1)
+        const letter = pick(LETTERS.split(""))
+        return ch === ch.toUpperCase() ? letter.toUpperCase() : letter
+    })
+}
+
+// 1, 2 or 5 times a power of ten, giving about ten buckets over `span`
+function bucketWidth(span: number) {
+    if (!(span > 0)) return 1
+    const raw = span / 10
+    const magnitude = 10 ** Math.floor(Math.log10(raw))
+    return ([1, 2, 5, 10].find((m) => m * magnitude >= raw) ?? 10) * magnitude
+}
+
+// Numbers become ranges, dates their month, emails their domain; other values keep a short prefix
+// (an ID's letters, a phone's country code) and are masked after it
+function generalizer(type: ColumnType, values: string[]): (value: string) => string {
+    if (type === "numeric") {
+        const numbers = values.map((v) => toNumber(v)).filter((n): n is number => n !== null)
+        const min = numbers.length ? numbers.reduce((a, b) => Math.min(a, b)) : 0
+        const max = numbers.length ? numbers.reduce((a, b) => Math.max(a, b)) : 0
+        const width = bucketWidth(max - min)
+        const round = (n: number) => Number(n.toPrecision(12))
+        return (value) => {
+            const n = toNumber(value)
+            if (n === null) return value
+            const low = Math.floor(n / width) * width
+            return `[${round(low)}, ${round(low + width)})`
+        }
+    }
+    if (type === "date" || type === "datetime") {
+        return (value) => {
+            const t = Date.parse(value)
+            return Number.isFinite(t) ? new Date(t).toISOString().slice(0, 7) : value
+        }
+    }
+    return (value) => {
+        const at = value.indexOf("@")
+        if (at > 0) return `*${value.slice(at)}`
+        const keep = Math.min(3, Math.ceil(value.length / 3))
+        return value.slice(0, keep) + value.slice(keep).replace(/[0-9A-Za-z]/g, "*")
+    }
+}
+
+function applyColumnPolicies(
+    table: Table,
+    schema: { name: string; type: ColumnType }[],
+    policies: ColumnPolicyRequest[],
+): { table: Table; schema: { name: string; type: ColumnType }[] } {
+    const actions = new Map(policies.map((p) => [p.name, p.action]))
+    // One salt per job: equal values hash equally within a run but can't be matched across runs
+    const salt = randomBytes(16).toString("hex")
+    const transforms = new Map<string, (value: string) => string>()
+    for (const column of schema) {
+        const action = actions.get(column.name)
+        if (action === "hash") {
+            transforms.set(column.name, (v) => createHash("sha256").update(salt).update(v).digest("hex").slice(0, 16))
+        } else if (action === "replace") {
+            transforms.set(column.name, freshValue)
+        } else if (action === "generalize") {
+            const values: string[] = []
+            for (const r of table.rows) if (!isMissing(r[column.name])) values.push(toKey(r[column.name]))
+            transforms.set(column.name, generalizer(column.type, values))
+        }
+    }
+
+    const columns = table.columns.filter((c) => actions.get(c) !== "drop")
+    const rows = table.rows.map((r) => {
+        const row: Row = {}
+        for (const c of columns) {
+            const transform = transforms.get(c)
+            row[c] = transform && !isMissing(r[c]) ? transform(toKey(r[c])) : r[c]
+        }
+        return row
+    })
+    // Hashed and generalized values are sampled as categories; replaced ones are redrawn per row (see createRowSampler)
+    const treated = schema
+        .filter((c) => actions.get(c.name) !== "drop")
+        .map((c) => {
+            const action = actions.get(c.name)
+            if (action === "hash" || action === "generalize") return { ...c, type: "categorical" as const }
+            if (action === "replace") return { ...c, type: "identifier" as const }
+            return c
+        })
+    return { table: { columns, rows }, schema: treated }
+}
+
+function freshColumns(job: SimulatedJob) {
+    return new Set(job.policies.filter((p) => p.action === "replace").map((p) => p.name))
+}
+
+// ---- Conditions ------------------------------------------------------------
+// `conditions` on /model/generate: a JSON array of { column, targets: [{ value, share }] }
+function parseConditions(raw: string | null, table: Table): GenerationCondition[] | Response {
+    if (!raw) return []
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(raw)
+    } catch {
+        return jsonError(400, "conditions must be a JSON array")
+    }
+    if (!Array.isArray(parsed)) return jsonError(400, "conditions must be a JSON array")
+
+    const conditions: GenerationCondition[] = []
+    for (const item of parsed as Partial<GenerationCondition>[]) {
+        const column = item?.column
+        if (typeof column !== "string" || !table.columns.includes(column)) return jsonError(422, `Unknown condition column "${column}"`)
+        const targets = Array.isArray(item.targets) ? item.targets : []
+        if (!targets.length || targets.some((t) => typeof t?.value !== "string" || !(Number(t.share) > 0))) {
+            return jsonError(422, `Condition on "${column}" needs values with positive shares`)
+        }
+        const known = new Set(table.rows.map((r) => toKey(r[column])))
+        const unknown = targets.find((t) => !known.has(t.value))
+        // The model can only condition on categories it has seen
+        if (unknown) return jsonError(422, `"${unknown.value}" never occurs in "${column}"`)
+        const total = targets.reduce((sum, t) => sum + Number(t.share), 0)
+        conditions.push({ column, targets: targets.map((t) => ({ value: t.value, share: Number(t.share) / total })) })
+    }
+    return conditions
+}
+
+// The condition's value for each of `count` rows, in shuffled order. Largest remainder rounding
+// makes the counts add up to `count`, so the output mix matches the targets exactly.
+function quotaValues(condition: GenerationCondition, count: number): string[] {
+    const exact = condition.targets.map((t) => t.share * count)
+    const counts = exact.map(Math.floor)
+    let left = count - counts.reduce((a, b) => a + b, 0)
+    const byRemainder = exact.map((e, i) => [e - Math.floor(e), i]).sort((a, b) => b[0] - a[0])
+    for (const [, i] of byRemainder) {
+        if (left-- <= 0) break
+        counts[i]++
+    }
+    const values = condition.targets.flatMap((t, i) => Array<string>(counts[i]).fill(t.value))
+    for (let i = values.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1))
+        ;[values[i], values[j]] = [values[j], values[i]]
+    }
+    return values
+}
+
+// Rows sampled from source rows that share their assigned condition values, so the other columns
+// stay consistent with them (a cancelled ride keeps its cancellation reason)
+function createConditionalSampler(
+    next: (template?: Row) => Row,
+    table: Table,
+    conditions: GenerationCondition[],
+    count: number,
+): (index: number) => Row {
+    if (!conditions.length) return () => next()
+    const assignments = conditions.map((c) => quotaValues(c, count))
+    const templates = new Map<string, Row[]>()
+    return (index) => {
+        const values = assignments.map((a) => a[index % a.length])
+        const key = values.join("\u0001")
+        let candidates = templates.get(key)
+        if (!candidates) {
+            candidates = table.rows.filter((r) => conditions.every((c, i) => toKey(r[c.column]) === values[i]))
+            // No source row has this combination; match the first condition alone
+            if (!candidates.length) candidates = table.rows.filter((r) => toKey(r[conditions[0].column]) === values[0])
+            templates.set(key, candidates)
+        }
+        const row = next(candidates.length ? pick(candidates) : undefined)
+        conditions.forEach((c, i) => {
+            row[c.column] = values[i]
+        })
+        return row
+    }
+}
+
+// ---- Constraints -----------------------------------------------------------
+// Draws per row before giving up (uniqueness on a column with few values can't always be met).
+// The draw breaking the fewest rules is kept, and the client's violation report shows it.
+const MAX_CONSTRAINT_DRAWS = 50
+
+// Rejection sampling: redraws row `index` until it follows every constraint
+function createConstrainedSampler(sample: (index: number) => Row, constraints: Constraint[], dates: ReadonlySet<string>) {
+    const checker = createConstraintChecker(constraints, dates)
+    let rejected = 0
+    return {
+        next(index: number): Row {
+            let best = sample(index)
+            let broken = constraints.length ? checker.violations(best).length : 0
+            for (let draw = 1; draw < MAX_CONSTRAINT_DRAWS && broken > 0; draw++) {
+                rejected++
+                const row = sample(index)
+                const rowBroken = checker.violations(row).length
+                if (rowBroken < broken) [best, broken] = [row, rowBroken]
+            }
+            checker.accept(best)
+            return best
+        },
+        rejected: () => rejected,
+    }
+}
+
+// ---- Job progress ----------------------------------------------------------
+type JobPhase = "preprocessing" | "training" | "generation"
+
+interface JobProgress {
+    status: "running" | "completed" | "cancelled"
+    phase: JobPhase
+    percent: number
+}
+
+// Where the preprocessing -> training timeline stands at `at`
+function trainingProgress(job: SimulatedJob, at: number): { phase: JobPhase; percent: number; done: boolean } {
+    const elapsed = at - job.startedAt
+    if (elapsed < job.preprocessMs) {
+        return { phase: "preprocessing", percent: Math.floor((elapsed / job.preprocessMs) * 100), done: false }
+    }
+    const trained = elapsed - job.preprocessMs
+    if (trained < job.durationMs) {
+        return { phase: "training", percent: Math.floor((trained / job.durationMs) * 100), done: false }
+    }
+    return { phase: "training", percent: 100, done: true }
+}
+
+function isTrained(job: SimulatedJob) {
+    return job.cancelledAt === undefined && trainingProgress(job, Date.now()).done
+}
+
+function jobProgress(job: SimulatedJob): JobProgress {
+    if (job.cancelledAt !== undefined) {
+        const { phase, percent } = trainingProgress(job, job.cancelledAt)
+        return { status: "cancelled", phase, percent }
+    }
+    const training = trainingProgress(job, Date.now())
+    if (!training.done) return { status: "running", phase: training.phase, percent: training.percent }
+
+    const generation = job.generation
+    if (!generation) return { status: "completed", phase: "training", percent: 100 }
+    const percent = Math.floor((generation.produced / Math.max(1, generation.total)) * 100)
+    if (generation.cancelled) return { status: "cancelled", phase: "generation", percent }
+    return { status: generation.finishedAt === undefined ? "running" : "completed", phase: "generation", percent }
+}
+
+function preprocessDuration(rows: number) {
+    return Math.min(5000, 1500 + rows)
+}
+
+function trainingDuration(rows: number) {
+    // A few seconds for small files, up to ~20s for large ones, so the progress UI has something to show
+    return Math.min(20000, 4000 + rows * 2)
+}
+
+// Rows are produced in chunks with a short pause so the generation phase reports progress
+const GENERATION_CHUNK_ROWS = 250
+const GENERATION_CHUNK_DELAY_MS = 50
+
+// Plausible decreasing training loss for the progress stream
+function trainingLoss(epoch: number, epochs: number) {
+    const t = epochs ? epoch / epochs : 1
+    return Number((0.15 + 1.1 * Math.exp(-4 * t) + 0.02 * Math.sin(epoch)).toFixed(4))
+}
+
+const EVENT_INTERVAL_MS = 500
+
+// ---- Route handlers --------------------------------------------------------
+export async function simulateCatalog(): Promise<Response> {
+    return Response.json({ models: SIMULATION_MODELS })
+}
+
+export async function simulateUpload(req: Request): Promise<Response> {
+    let file: FormDataEntryValue | null
+    try {
+        file = (await req.formData()).get("file")
+    } catch {
+        return jsonError(400, "Expected multipart form data with a file field")
+    }
+    if (!file || typeof file === "string") return jsonError(400, "Missing file")
+
+    const table = parseTable(await file.text(), file.name)
+    if (!table.columns.length) return jsonError(422, "Could not find any columns in the file")
+
+    const id = newId("ds")
+    store.datasets.set(id, { id, name: file.name, table })
+    return Response.json({ dataset_id: id })
+}
+
+export async function simulateTrain(req: Request): Promise<Response> {
+    let body: {
+        dataset_id?: unknown
+        model_name?: unknown
+        schema?: unknown
+        column_policies?: unknown
+        constraints?: unknown
+        holdout_rows?: unknown
+        hyperparameters?: Partial<TrainingHyperparameters>
+    }
+    try {
+        body = await req.json()
+    } catch {
+        return jsonError(400, "Expected a JSON body")
+    }
+
+    const dataset = typeof body.dataset_id === "string" ? store.datasets.get(body.dataset_id) : undefined
+    if (!dataset) return jsonError(404, "Unknown dataset_id")
+
+    const schema = Array.isArray(body.schema)
+        ? (body.schema as ColumnSchema[]).filter((c) => c && typeof c.name === "string" && typeof c.type === "string")
+        : null
+    const policies = Array.isArray(body.column_policies)
+        ? (body.column_policies as Partial<ColumnPolicyRequest>[]).filter(
+              (p): p is ColumnPolicyRequest =>
+                  !!p && typeof p.name === "string" && dataset.table.columns.includes(p.name) && isColumnPolicy(p.action),
+          )
+        : []
+    // Held-out rows are left out of training, so the client's privacy evaluation has records the model never saw
+    const held = new Set(
+        Array.isArray(body.holdout_rows)
+            ? body.holdout_rows.filter((i): i is number => Number.isInteger(i) && i >= 0 && i < dataset.table.rows.length)
+            : [],
+    )
+    const trainingTable = held.size ? { ...dataset.table, rows: dataset.table.rows.filter((_, i) => !held.has(i)) } : dataset.table
+    const treated = policies.length
+        ? applyColumnPolicies(trainingTable, schema ?? inferSchema(trainingTable), policies)
+        : { table: trainingTable, schema }
+    const constraints = parseConstraints(body.constraints)
+    const constraintError = Object.values(validateConstraints(constraints, treated.table.columns))[0]
+    if (constraintError) return jsonError(422, `Invalid constraint: ${constraintError}`)
+
+    // Clamp like the real service would, so the results page has something to compare against
+    const requested = body.hyperparameters ?? {}
+    const hyperparameters: TrainingHyperparameters = {
+        epochs: Math.max(1, Math.min(1000, Math.round(Number(requested.epochs) || 300))),
+        ...(requested.dp_epsilon !== undefined
+            ? {
+                  dp_epsilon: Math.max(0.1, Math.min(50, Number(requested.dp_epsilon) || 3)),
+                  dp_delta: Math.max(1e-12, Math.min(1e-3, Number(requested.dp_delta) || 1e-5)),
+              }
+            : {}),
+    }
+    // The noise is calibrated to the target up front, so the accountant usually lands a little under it
+    const privacySpent =
+        hyperparameters.dp_epsilon !== undefined && hyperparameters.dp_delta !== undefined
+            ? { epsilon: Number((hyperparameters.dp_epsilon * (0.9 + Math.random() * 0.1)).toFixed(3)), delta: hyperparameters.dp_delta }
+            : undefined
+
+    const id = newId("job")
+    store.jobs.set(id, {
+        id,
+        datasetId: dataset.id,
+        modelName: typeof body.model_name === "string" ? body.model_name : "simulation",
+        schema: treated.schema,
+        policies,
+        table: treated.table,
+        constraints,
+        hyperparameters,
+        privacySpent,
+        startedAt: Date.now(),
+        preprocessMs: preprocessDuration(trainingTable.rows.length),
+        durationMs: trainingDuration(trainingTable.rows.length),
+    })
+    const effective = held.size ? { ...hyperparameters, holdout_rows: held.size } : hyperparameters
+    return Response.json({ job_id: id, status: "running", effective_parameters: effective })
+}
+
+export async function simulateStatus(jobId: string): Promise<Response> {
+    const job = store.jobs.get(jobId)
+    if (!job) return jsonError(404, "Unknown job_id")
+    const spent = isTrained(job) && job.privacySpent ? { privacy_spent: job.privacySpent } : {}
+    return Response.json({ job_id: job.id, ...jobProgress(job), ...spent })
+}
+
+// Only running jobs can be cancelled; cancelling twice is a no-op
+export async function simulateCancel(jobId: string): Promise<Response> {
+    const job = store.jobs.get(jobId)
+    if (!job) return jsonError(404, "Unknown job_id")
+    if (isTrained(job)) {
+        // A trained model can't be cancelled, but a generation in progress can
+        if (!job.generation || job.generation.finishedAt !== undefined) return jsonError(409, "Job already completed")
+        job.generation.cancelled = true
+    } else {
+        job.cancelledAt ??= Date.now()
+    }
+    return Response.json({ job_id: job.id, ...jobProgress(job) })
+}
+
+// Pushes a progress event every EVENT_INTERVAL_MS plus a log line every ~10%, and closes once the job is done
+export async function simulateEvents(req: Request, jobId: string): Promise<Response> {
+    const job = store.jobs.get(jobId)
+    if (!job) return jsonError(404, "Unknown job_id")
+
+    const encoder = new TextEncoder()
+    let timer: ReturnType<typeof setInterval> | undefined
+    let closed = false
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const close = () => {
+                if (closed) return
+                closed = true
+                clearInterval(timer)
+                controller.close()
+            }
+            const send = (event: string, data: unknown) =>
+                controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+
+            const epochs = job.hyperparameters.epochs
+            // One log line per phase per 10% of progress
+            let lastLogged = ""
+            const logOnce = (key: string, message: string) => {
+                if (key === lastLogged) return
+                lastLogged = key
+                send("log", { message })
+            }
+
+            const tick = () => {
+                if (closed) return
+                const progress = jobProgress(job)
+                const event: Record<string, unknown> = { job_id: job.id, ...progress }
+                const decile = Math.floor(progress.percent / 10)
+                if (progress.phase === "preprocessing") {
+                    const treatments = job.policies.map((p) => `${p.name}=${p.action}`).join(", ")
+                    logOnce(
+                        "preprocessing",
+                        `profiling ${job.table.rows.length} rows x ${job.table.columns.length} columns` +
+                            (treatments ? `; column policies: ${treatments}` : ""),
+                    )
+                } else if (progress.phase === "training") {
+                    event.epoch = Math.floor((progress.percent / 100) * epochs)
+                    event.epochs = epochs
+                    event.loss = trainingLoss(event.epoch as number, epochs)
+                    if (progress.status === "running") {
+                        logOnce(`training:${decile}`, `epoch ${event.epoch}/${epochs} loss=${event.loss}`)
+                    }
+                } else if (job.generation) {
+                    event.rows = job.generation.produced
+                    event.total = job.generation.total
+                    logOnce(`generation:${decile}`, `generated ${job.generation.produced}/${job.generation.total} rows`)
+                }
+                send("progress", event)
+                if (progress.status !== "running") close()
+            }
+
+            controller.enqueue(encoder.encode("retry: 2000\n\n"))
+            tick()
+            if (!closed) timer = setInterval(tick, EVENT_INTERVAL_MS)
+            req.signal.addEventListener("abort", close)
+        },
+        cancel() {
+            closed = true
+            clearInterval(timer)
+        },
+    })
+
+    return new Response(stream, {
+        headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache, no-transform" },
+    })
+}
+
+export async function simulateGenerate(req: Request, jobId: string): Promise<Response> {
+    const job = store.jobs.get(jobId)
+    if (!job) return jsonError(404, "Unknown job_id")
+    if (job.cancelledAt !== undefined) return jsonError(409, "Job was cancelled")
+    if (!isTrained(job)) return jsonError(409, "Model is still training")
+    if (job.generation && job.generation.finishedAt === undefined) return jsonError(409, "Generation already running")
+
+    const query = new URL(req.url).searchParams
+    const requested = Number(query.get("count") ?? 1000)
+    const count = Math.max(1, Math.min(MAX_SAMPLES, Number.isFinite(requested) ? Math.floor(requested) : 1000))
+    const temperature = Math.max(0.1, Math.min(2, Number(query.get("temperature")) || 1))
+    const conditions = parseConditions(query.get("conditions"), job.table)
+    if (conditions instanceof Response) return conditions
+    const schema = job.schema ?? inferSchema(job.table)
+
+    const generation: NonNullable<SimulatedJob["generation"]> = { produced: 0, total: count }
+    job.generation = generation
+    const sampler = createConstrainedSampler(
+        createConditionalSampler(createRowSampler(job.table, schema, temperature, freshColumns(job)), job.table, conditions, count),
+        job.constraints,
+        dateColumns(schema),
+    )
+    // At most ~100 chunks, so large requests don't take minutes
+    const chunkRows = Math.max(GENERATION_CHUNK_ROWS, Math.ceil(count / 100))
+    const rows: Row[] = []
+    while (rows.length < count) {
+        if (generation.cancelled || req.signal.aborted) {
+            generation.cancelled = true
+            generation.finishedAt = Date.now()
+            return jsonError(409, "Generation was cancelled")
+        }
+        const end = Math.min(count, rows.length + chunkRows)
+        while (rows.length < end) rows.push(sampler.next(rows.length))
+        generation.produced = rows.length
+        await new Promise((resolve) => setTimeout(resolve, GENERATION_CHUNK_DELAY_MS))
+    }
+    generation.finishedAt = Date.now()
+    generation.rows = rows
+
+    const effective = { ...job.hyperparameters, temperature }
+    const rejected = job.constraints.length ? { rejected_rows: sampler.rejected() } : {}
+    // Paged clients read the rows back through /model/results and /model/download
+    if (query.get("paged") === "1") {
+        return Response.json({ job_id: job.id, total_rows: rows.length, ...rejected, effective_parameters: effective })
+    }
+    return Response.json({ job_id: job.id, synthetic_data: rows, ...rejected, effective_parameters: effective })
+}
+
+function generatedRows(jobId: string): Row[] | Response {
+    const job = store.jobs.get(jobId)
+    if (!job) return jsonError(404, "Unknown job_id")
+    const rows = job.generation?.rows
+    if (!rows) return jsonError(409, "No generated data for this job")
+    return rows
+}
+
+export async function simulateResults(req: Request, jobId: string): Promise<Response> {
+    const rows = generatedRows(jobId)
+    if (rows instanceof Response) return rows
+
+    const query = new URL(req.url).searchParams
+    const offset = Math.max(0, Math.floor(Number(query.get("offset")) || 0))
+    const limit = Math.max(1, Math.min(MAX_PAGE_SIZE, Math.floor(Number(query.get("limit")) || DEFAULT_PAGE_SIZE)))
+    return Response.json({ job_id: jobId, total_rows: rows.length, offset, rows: rows.slice(offset, offset + limit) })
+}
+
+// Rows that aren't exact copies of an uploaded row, compared on the same columns as the client's privacy report
+function withoutSourceCopies(job: SimulatedJob, rows: Row[], schema: { name: string; type: ColumnType }[]): Row[] {
+    const source = store.datasets.get(job.datasetId)?.table.rows ?? []
+    const columns = copyColumns(schema, job.policies.map((p) => p.name))
+    return withoutExactCopies(rows, source, columns)
+}
+
+// Streams text formats a chunk of rows at a time as the client reads; workbooks and Parquet files are built whole
+export async function simulateDownload(req: Request, jobId: string): Promise<Response> {
+    const generated = generatedRows(jobId)
+    if (generated instanceof Response) return generated
+
+    const query = new URL(req.url).searchParams
+    const format = query.get("format") ?? "csv"
+    if (!isExportFormat(format)) return jsonError(400, `Unsupported format "${format}"`)
+
+    // Types come from the schema the job was trained with, like the real backend
+    const job = store.jobs.get(jobId)!
+    const schema = job.schema ?? inferSchema(job.table)
+    const dropCopies = query.get("drop_copies") === "1"
+    const rows = dropCopies ? withoutSourceCopies(job, generated, schema) : generated
+    const columns = exportColumns(rows, schema)
+    const { dp_epsilon, dp_delta } = job.hyperparameters
+    const target = dp_epsilon !== undefined && dp_delta !== undefined ? { epsilon: dp_epsilon, delta: dp_delta } : null
+    const metadata = budgetMetadata(target, job.privacySpent)
+    const headers: Record<string, string> = {
+        "Content-Type": exportMimeType(format),
+        "Content-Disposition": `attachment; filename="synthetic_data_${jobId}.${format}"`,
+        "Cache-Control": "no-store",
+        // Confirms the copies were left out, so the client doesn't claim so against a backend that ignored it
+        ...(dropCopies ? { [DROPPED_COPIES_HEADER]: String(generated.length - rows.length) } : {}),
+    }
+    if (!isTextFormat(format)) {
+        return new Response((await buildBinaryExport(rows, columns, format, metadata)) as Uint8Array<ArrayBuffer>, { headers })
+    }
+
+    const encoder = new TextEncoder()
+    const chunks = exportTextChunks(rows, columns, format, metadata)
+    const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+            const next = chunks.next()
+            if (next.done) controller.close()
+            else controller.enqueue(encoder.encode(next.value))
+        },
+    })
+    return new Response(body, { headers })
+}
@@ -0,0 +1,124 @@
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type Row = Record<string, any>
+
+export interface Table {
+    columns: string[]
+    rows: Row[]
+}
+
+// RFC 4180-ish CSV parser: handles quoted fields, doubled quotes and CRLF line endings
+export function parseCsv(text: string, delimiter = ","): string[][] {
+    const records: string[][] = []
+    let record: string[] = []
+    let field = ""
+    let inQuotes = false
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i]
+        if (inQuotes) {
+            if (ch === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"'
+                    i++
+                } else {
+                    inQuotes = false
+                }
+            } else {
+                field += ch
+            }
+            continue
+        }
+
+        if (ch === '"') {
+            inQuotes = true
+        } else if (ch === delimiter) {
+            record.push(field)
+            field = ""
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && text[i + 1] === "\n") i++
+            record.push(field)
+            records.push(record)
+            record = []
+            field = ""
+        } else {
+            field += ch
+        }
+    }
+
+    if (field !== "" || record.length > 0) {
+        record.push(field)
+        records.push(record)
+    }
+
+    // Drop blank lines (a single empty field)
+    return records.filter((r) => !(r.length === 1 && r[0] === ""))
+}
+
+// Parse uploaded file content into rows keyed by column name
+export function parseTable(content: string, fileName = ""): Table {
+    const trimmed = content.trim()
+    if (!trimmed) return { columns: [], rows: [] }
+
+    if (fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("[")) {
+        try {
+            const parsed = JSON.parse(trimmed)
+            const rows: Row[] = Array.isArray(parsed) ? parsed.filter((r) => r && typeof r === "object") : []
+            return { columns: collectColumns(rows), rows }
+        } catch {
+            // Not JSON after all; fall back to CSV
+        }
+    }
+
+    const delimiter = fileName.toLowerCase().endsWith(".tsv") ? "\t" : ","
+    const [header = [], ...records] = parseCsv(trimmed, delimiter)
+    const columns = header.map((h) => h.trim())
+    const rows = records.map((record) => {
+        const row: Row = {}
+        columns.forEach((col, i) => {
+            row[col] = unquote(record[i] ?? "")
+        })
+        return row
+    })
+    return { columns, rows }
+}
+
+// Exports that triple-quote IDs ("""CNR7670041""") leave a literal quote pair after CSV unescaping
+export function unquote(value: string): string {
+    return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value
+}
+
+// Stable union of keys across all rows, in first-seen order
+export function collectColumns(rows: Row[]): string[] {
+    const seen = new Set<string>()
+    for (const r of rows) Object.keys(r).forEach((k) => seen.add(k))
+    return Array.from(seen)
+}
+
+export function isMissing(value: unknown): boolean {
+    return value === null || value === undefined || (typeof value === "string" && value.trim() === "")
+}
+
+export function toNumber(value: unknown): number | null {
+    if (typeof value === "number") return Number.isFinite(value) ? value : null
+    if (typeof value !== "string" || value.trim() === "") return null
+    const n = Number(value)
+    return Number.isFinite(n) ? n : null
+}
+
+export function toKey(value: unknown): string {
+    if (isMissing(value)) return ""
+    return typeof value === "object" ? JSON.stringify(value) : String(value).trim()
+}
+
+// A column is numeric when nearly all of its present values parse as numbers
+export function isNumericColumn(rows: Row[], column: string, threshold = 0.95): boolean {
+    let present = 0
+    let numeric = 0
+    for (const r of rows) {
+        const v = r[column]
+        if (isMissing(v)) continue
+        present++
+        if (toNumber(v) !== null) numeric++
+    }
+    return present > 0 && numeric / present >= threshold
+}
@@ -0,0 +1,100 @@
+import type { CellValue } from "exceljs"
+import type { Row, Table } from "./tabular"
+import { csvLine } from "./export-formats"
+
+// Excel workbooks are read in the browser and uploaded as CSV, so the backend and every later step
+// see the same tabular text they get from a CSV upload. Cells are normalized to text the way a
+// spreadsheet would export them: formula results instead of formulas, ISO dates, plain rich text.
+
+export interface WorkbookSheet {
+    name: string
+    // Cell text by row, trimmed to the used range; empty rows are kept so row numbers match Excel
+    cells: string[][]
+}
+
+// Header row choices offered in the picker
+export const HEADER_ROW_CHOICES = 20
+
+export function isWorkbookFile(name: string) {
+    return /\.xlsx$/i.test(name)
+}
+
+function cellText(value: CellValue): string {
+    if (value === null || value === undefined) return ""
+    if (value instanceof Date) {
+        // Excel dates have no zone; exceljs reads them as UTC. Whole days are written as plain dates.
+        const iso = value.toISOString()
+        return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso.slice(0, 19).replace("T", " ")
+    }
+    if (typeof value !== "object") return String(value)
+    if ("richText" in value) return value.richText.map((r) => r.text).join("")
+    if ("hyperlink" in value) return cellText(value.text as CellValue)
+    if ("formula" in value || "sharedFormula" in value) return cellText(value.result as CellValue)
+    // Error cells (#N/A, #REF!, ...) carry no value
+    return ""
+}
+
+export async function loadWorkbook(data: ArrayBuffer): Promise<WorkbookSheet[]> {
+    const { default: ExcelJS } = await import("exceljs")
+    const workbook = new ExcelJS.Workbook()
+    try {
+        // The browser build accepts an ArrayBuffer where the typings say Buffer
+        await workbook.xlsx.load(data as unknown as Parameters<typeof workbook.xlsx.load>[0])
+    } catch {
+        throw new Error("Could not read the workbook. Save it as .xlsx or CSV and try again.")
+    }
+
+    return workbook.worksheets
+        .filter((sheet) => sheet.state === "visible")
+        .map((sheet) => {
+            const cells: string[][] = []
+            let width = 0
+            for (let r = 1; r <= sheet.rowCount; r++) {
+                const row = sheet.getRow(r)
+                const values: string[] = []
+                for (let c = 1; c <= sheet.columnCount; c++) values.push(cellText(row.getCell(c).value).trim())
+                while (values.length && values[values.length - 1] === "") values.pop()
+                width = Math.max(width, values.length)
+                cells.push(values)
+            }
+            while (cells.length && cells[cells.length - 1].length === 0) cells.pop()
+            return { name: sheet.name, cells: cells.map((values) => [...values, ...Array<string>(width - values.length).fill("")]) }
+        })
+}
+
+// The first of the top rows that fills at least half as many cells as the widest one; titles and
+// notes above a table usually fill only one or two cells, and headers can have a few blanks
+export function guessHeaderRow(sheet: WorkbookSheet): number {
+    const top = sheet.cells.slice(0, HEADER_ROW_CHOICES)
+    const filled = top.map((values) => values.filter(Boolean).length)
+    const needed = Math.ceil(Math.max(0, ...filled) / 2)
+    return Math.max(0, filled.findIndex((n) => n > 0 && n >= needed))
+}
+
+// Rows below `headerRow` (0-based) keyed by the header cells; blank headers get a positional name
+// and repeated ones a numeric suffix, and rows with no values at all are skipped
+export function sheetToTable(sheet: WorkbookSheet, headerRow: number): Table {
+    const header = sheet.cells[headerRow] ?? []
+    const seen = new Map<string, number>()
+    const columns = header.map((cell, i) => {
+        const base = cell || `column_${i + 1}`
+        const count = (seen.get(base) ?? 0) + 1
+        seen.set(base, count)
+        return count > 1 ? `${base}_${count}` : base
+    })
+    const rows: Row[] = []
+    for (const values of sheet.cells.slice(headerRow + 1)) {
+        if (values.every((v) => v === "")) continue
+        const row: Row = {}
+        columns.forEach((col, i) => {
+            row[col] = values[i] ?? ""
+        })
+        rows.push(row)
+    }
+    return { columns, rows }
+}
+
+export function tableToCsv({ columns, rows }: Table): string {
+    const header = csvLine(Object.fromEntries(columns.map((c) => [c, c])), columns)
+    return [header, ...rows.map((r) => csvLine(r, columns))].join("\r\n")
+}